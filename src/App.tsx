@@ -1,54 +1,112 @@
 
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { Info, Music, Activity, Sparkles } from 'lucide-react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { Info, Music, Activity, Sparkles, ClipboardList, Orbit, AudioLines, SlidersHorizontal, Plus, X, Dices, Bookmark, FolderOpen } from 'lucide-react';
 import { TrackDeck } from './components/TrackDeck';
 import { MixerControls } from './components/Mixer';
 import { Ruler } from './components/Ruler';
+import { TimelineOverview } from './components/TimelineOverview';
 import { BpmLog } from './components/BpmLog';
 import { ResizeHandle } from './components/ResizeHandle';
 import { AudioMeter } from './components/AudioMeter';
+import { Vectorscope, ScopeMode, ScopePersistence } from './components/Vectorscope';
+import { SpectrumAnalyzer, SpectrumSource } from './components/SpectrumAnalyzer';
 import { InfoModal } from './components/InfoModal';
 import { GenreAnalyzer } from './components/GenreAnalyzer';
-import { TrackData, TrackId, WaveSurferInstance, BpmPoint, AnalyzedTrack } from './types';
-import { filterAudioBuffer, analyzeBpmFromData } from './utils/bpm';
-import { calculateTrackLoudness } from './utils/audioAnalysis';
-import { COLOR_TRACK_A, COLOR_TRACK_B } from './constants';
+import { CrateAnalyzer } from './components/CrateAnalyzer';
+import { ResidualWaveform } from './components/ResidualWaveform';
+import { NullTestPanel } from './components/NullTestPanel';
+import { EqMatchPanel } from './components/EqMatchPanel';
+import { AbxPanel, AbxListen } from './components/AbxPanel';
+import { MarkerPanel } from './components/MarkerPanel';
+import { TrackData, TrackId, WaveSurferInstance, BpmPoint, AnalyzedTrack, TrackAlignment, ResidualAnalysis, LoudnessStats, EqBand, DeckRole, SlotRouting, AbxSession, LoopRegion, Marker, TimelineView, BpmProfile, CrateTrack } from './types';
+import { filterAudioBuffer, trackBeats, applyTempoChoices } from './utils/bpm';
+import { createBpmAnalyzer, BpmAnalyzer } from './utils/bpmWorker';
+import { createCrateAnalyzer, CrateAnalyzer as CrateAnalyzerPool } from './utils/crateAnalysis';
+import { buildTrackChromagram, estimateKey, chromaInRange, analyzeKeysFromChromagram, Chromagram } from './utils/key';
+import { measureLoudness } from './utils/loudness';
+import { setDeckDisplayTime } from './utils/audioAnalysis';
+import { estimateAlignment, alignmentToOffsets } from './utils/alignment';
+import { computeResidual, buildNullTestReport } from './utils/residual';
+import { suggestMatchEq } from './utils/eqMatch';
+import { createAbxSession, recordAbxAnswer } from './utils/abx';
+import { createTransport, Transport, TransportDeck } from './utils/transport';
+import { getTrackKey, loadMarkers, saveMarkers, sortMarkers, createMarkerId, serializeMarkers, parseMarkers, MarkerFormat } from './utils/markers';
+import { baseName, downloadFile } from './utils/export';
+import { fullView, isFullView, clampView, zoomView, panView } from './utils/timelineView';
+import { COLOR_TRACK_A, COLOR_TRACK_B, COLOR_TRACK_C, COLOR_SLOT_IDLE, COLOR_RESIDUAL, SAMPLE_RATE_COMPARATOR, SAMPLE_RATE_ANALYZER, MAX_COMPARATOR_SLOTS, MIN_VIEW_SECONDS } from './constants';
 import clsx from 'clsx';
 import Footer from './components/Footer';
 
-type ViewMode = 'comparator' | 'analyzer' | 'genre';
+type ViewMode = 'comparator' | 'analyzer' | 'genre' | 'crate';
+
+// A loadable deck in the Comparator
+interface ComparatorSlot {
+    id: TrackId;
+    track: TrackData | null;
+}
+
+// Share of the Comparator height given to the difference lane by default
+const DEFAULT_DIFF_HEIGHT = 33.34;
+
+// Equal deck heights above a difference lane of `diffHeight` percent
+const distributeHeights = (slotCount: number, diffHeight: number) => [
+    ...Array.from({ length: slotCount }, () => (100 - diffHeight) / slotCount),
+    diffHeight,
+];
+
+// Wheel delta (px) to zoom factor; pinch gestures arrive as ctrl + wheel with small deltas
+const WHEEL_ZOOM_RATE = 0.002;
+const PINCH_ZOOM_RATE = 0.01;
+
+// Ramp applied to every gain change so crossfader moves and routing changes don't click
+const GAIN_RAMP_SECONDS = 0.005;
 
 // Cache structure for analyzed track data
 interface FilteredAudioCache {
-    data: Float32Array;
-    sampleRate: number;
     duration: number;
+    analyzer: BpmAnalyzer; // Detection worker with its own copy of the data and its tempogram
+    onset: { data: Float32Array; rate: number } | null; // The tempogram's onset envelope, for beat tracking
 }
 
 const App: React.FC = () => {
   // -- View State --
   const [activeTab, setActiveTab] = useState<ViewMode>('comparator');
+  const isTimelineTab = activeTab === 'comparator' || activeTab === 'analyzer';
   const [isInfoOpen, setIsInfoOpen] = useState(false);
 
   // -- Layout State --
-  // Percentages for Comparator Mode [TrackA, TrackB, Diff]
-  const [compHeights, setCompHeights] = useState([33.33, 33.33, 33.34]);
+  // Percentages for Comparator Mode [Slot 1..N, Diff]
+  const [compHeights, setCompHeights] = useState(() => distributeHeights(2, DEFAULT_DIFF_HEIGHT));
   // Pixel height for Top Track in Analyzer Mode
   const [analyzerHeight, setAnalyzerHeight] = useState(250);
 
   // -- Track State --
-  // Comparator Tracks
-  const [trackA, setTrackA] = useState<TrackData | null>(null);
-  const [trackB, setTrackB] = useState<TrackData | null>(null);
+  // Comparator Slots (any number of tracks, two of them routed to A/B)
+  const [slots, setSlots] = useState<ComparatorSlot[]>([{ id: '1', track: null }, { id: '2', track: null }]);
+  const [routing, setRouting] = useState<SlotRouting>({ A: '1', B: '2' });
+  const nextSlotIdRef = useRef(3);
+
+  const trackA = slots.find(s => s.id === routing.A)?.track ?? null;
+  const trackB = slots.find(s => s.id === routing.B)?.track ?? null;
   
   // Analyzer Track
   const [trackC, setTrackC] = useState<TrackData | null>(null);
+  const [bufferC, setBufferC] = useState<AudioBuffer | null>(null);
   const [bpmData, setBpmData] = useState<BpmPoint[]>([]);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isAnalyzing, setIsAnalyzing] = useState(false); // Filtering (offline render)
+  const [bpmProgress, setBpmProgress] = useState<number | null>(null); // Detection in the worker, 0-1
   const [bpmInterval, setBpmInterval] = useState(0); // 0 = Auto
+  const [bpmProfile, setBpmProfile] = useState<BpmProfile>('lowpass');
+  const [chromagramC, setChromagramC] = useState<Chromagram | null>(null);
+  const [tempoChoices, setTempoChoices] = useState<Record<number, number>>({}); // Point time -> picked BPM
+  const [octaveLock, setOctaveLock] = useState<number | null>(null);
 
   // Genre Analyzer State (Lifted for persistence)
   const [genreTracks, setGenreTracks] = useState<AnalyzedTrack[]>([]);
+
+  // Crate Analyzer State (Lifted so the batch keeps running on other tabs)
+  const [crateTracks, setCrateTracks] = useState<CrateTrack[]>([]);
+  const crateAnalyzerRef = useRef<CrateAnalyzerPool | null>(null);
   
   // API Key Persistence
   const [userApiKey, setUserApiKey] = useState<string>(() => {
@@ -68,36 +126,145 @@ const App: React.FC = () => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
+  // Visible timeline span shared by the Ruler, decks and difference lane (null = whole timeline)
+  const [timelineView, setTimelineView] = useState<TimelineView | null>(null);
+  const view = useMemo(
+    () => timelineView ? clampView(timelineView, duration, MIN_VIEW_SECONDS) : fullView(duration),
+    [timelineView, duration]
+  );
   const [crossfade, setCrossfade] = useState(0.5); // 0 = A, 1 = B
+  const [switchRampMs, setSwitchRampMs] = useState(10); // A/B toggle ramp length
+  // Ramp (seconds) for the next gain update, set by the A/B toggle
+  const switchRampRef = useRef<number | null>(null);
   
+  // Loop Region (drawn on the Ruler, shared by all decks)
+  const [loopRegion, setLoopRegion] = useState<LoopRegion | null>(null);
+  const [isLoopEnabled, setIsLoopEnabled] = useState(false);
+  const activeLoop = isLoopEnabled ? loopRegion : null;
+
   // Auto-Gain & Diff Mode State
   const [autoGain, setAutoGain] = useState(false);
   const [isDiffMode, setIsDiffMode] = useState(false);
-  const [trackGains, setTrackGains] = useState<{A: number, B: number}>({ A: 1, B: 1 });
+
+  // Time Alignment State (B relative to A)
+  const [alignment, setAlignment] = useState<TrackAlignment | null>(null);
+  const trackOffsets = useMemo(() => alignmentToOffsets(alignment), [alignment]);
+
+  // Decoded buffers per comparator slot. Kept in state so analysis re-runs
+  // when a deck's track is replaced (the WaveSurfer instance itself is reused).
+  const [slotBuffers, setSlotBuffers] = useState<Partial<Record<TrackId, AudioBuffer>>>({});
+  const decodedBuffers = useMemo(() => ({
+    A: routing.A ? slotBuffers[routing.A] ?? null : null,
+    B: routing.B ? slotBuffers[routing.B] ?? null : null,
+  }), [slotBuffers, routing]);
+
+  // True A - B difference signal (rendered in the bottom Comparator lane)
+  const [residual, setResidual] = useState<ResidualAnalysis | null>(null);
+
+  // Null Test Report
+  const [isNullReportOpen, setIsNullReportOpen] = useState(false);
+  const [nullThresholdDb, setNullThresholdDb] = useState(-60);
+  const nullTestReport = useMemo(
+    () => residual ? buildNullTestReport(residual, nullThresholdDb) : null,
+    [residual, nullThresholdDb]
+  );
+
+  // Meter Bridge Scopes
+  const [showScopes, setShowScopes] = useState(false);
+  const [scopeMode, setScopeMode] = useState<ScopeMode>('ms');
+  const [scopePersistence, setScopePersistence] = useState<ScopePersistence>('short');
+  const [isSpectrumOpen, setIsSpectrumOpen] = useState(false);
+
+  // Spectral Match EQ (A -> B), optionally auditioned on Track A
+  const [isEqMatchOpen, setIsEqMatchOpen] = useState(false);
+  const [isEqAuditioning, setIsEqAuditioning] = useState(false);
+  const eqMatch = useMemo(() => {
+    const { A: bufA, B: bufB } = decodedBuffers;
+    if (!(isEqMatchOpen || isEqAuditioning) || !bufA || !bufB) return null;
+    return suggestMatchEq(bufA, bufB);
+  }, [decodedBuffers, isEqMatchOpen, isEqAuditioning]);
+
+  // Blind ABX Test (plays A, B or the hidden X, loudness-matched)
+  const [isAbxOpen, setIsAbxOpen] = useState(false);
+  const [abxSession, setAbxSession] = useState<AbxSession | null>(null);
+  const [abxListen, setAbxListen] = useState<AbxListen>('X');
+  const isAbxRunning = !!abxSession && !abxSession.finishedAt;
+
+  // Markers & Regions, per reference track (C in the Analyzer, A in the Comparator).
+  // Stored in the track's own time and persisted under its name + content hash.
+  const [isMarkerPanelOpen, setIsMarkerPanelOpen] = useState(false);
+  const [markerImportError, setMarkerImportError] = useState<string | null>(null);
+  const [markerKeys, setMarkerKeys] = useState<Record<string, string>>({}); // track url -> storage key
+  const [markers, setMarkers] = useState<Marker[]>([]);
+  const markerTrack = activeTab === 'analyzer' ? trackC : activeTab === 'comparator' ? trackA : null;
+  const markerKey = markerTrack ? markerKeys[markerTrack.url] ?? null : null;
+  const markerOffset = activeTab === 'comparator' ? trackOffsets.A : 0; // track time = timeline time + offset
+
+  useEffect(() => {
+    setMarkers(markerKey ? loadMarkers(markerKey) : []);
+  }, [markerKey]);
+
+  const timelineMarkers = useMemo(() => markers.map(m => ({
+    ...m,
+    start: m.start - markerOffset,
+    end: m.end === null ? null : m.end - markerOffset,
+  })), [markers, markerOffset]);
 
   // -- Refs & Instances --
+  // wsRefA / wsRefB always point at the slots currently routed to A / B
   const wsRefA = useRef<WaveSurferInstance | null>(null);
   const wsRefB = useRef<WaveSurferInstance | null>(null);
-  const wsRefDiffA = useRef<WaveSurferInstance | null>(null);
-  const wsRefDiffB = useRef<WaveSurferInstance | null>(null);
   const wsRefC = useRef<WaveSurferInstance | null>(null); // Analyzer Ref
+  const slotRefs = useRef<Partial<Record<TrackId, WaveSurferInstance>>>({});
   
   // State for meters (needs re-render when instance is ready)
-  const [wsInstanceA, setWsInstanceA] = useState<WaveSurferInstance | null>(null);
-  const [wsInstanceB, setWsInstanceB] = useState<WaveSurferInstance | null>(null);
+  const [slotInstances, setSlotInstances] = useState<Partial<Record<TrackId, WaveSurferInstance>>>({});
   const [wsInstanceC, setWsInstanceC] = useState<WaveSurferInstance | null>(null);
+  const wsInstanceA = (routing.A && slotInstances[routing.A]) || null;
+  const wsInstanceB = (routing.B && slotInstances[routing.B]) || null;
+
+  // Keep the role refs in step with routing (declared first so later effects see them)
+  useEffect(() => {
+    wsRefA.current = wsInstanceA;
+    wsRefB.current = wsInstanceB;
+  }, [wsInstanceA, wsInstanceB]);
+
+  // Spectrum overlay sources (memoized so the analyzer's draw loop isn't restarted every render)
+  const spectrumSources = useMemo<SpectrumSource[]>(() => [
+    { id: 'A', ws: wsInstanceA, color: COLOR_TRACK_A },
+    { id: 'B', ws: wsInstanceB, color: COLOR_TRACK_B },
+  ], [wsInstanceA, wsInstanceB]);
 
   const containerRef = useRef<HTMLDivElement>(null);
+  const mainRef = useRef<HTMLElement>(null);
   
   // Shared Audio Context for mixing (Crucial for Differential Mode Null Test)
   const audioContextRef = useRef<AudioContext | null>(null);
+  // Web Audio transport driving comparator playback (WaveSurfer only displays)
+  const transportRef = useRef<Transport | null>(null);
   
   // Cache for the expensive filtered audio data
   const filteredCacheRef = useRef<FilteredAudioCache | null>(null);
+  // Bumped on every new run so a superseded filter step drops its result
+  const bpmRunRef = useRef(0);
+
+  // Detected tempo with the user's per-window picks and octave lock applied
+  const tempoData = useMemo(
+    () => applyTempoChoices(bpmData, tempoChoices, octaveLock),
+    [bpmData, tempoChoices, octaveLock]
+  );
 
-  // Flags
-  const isSeekingRef = useRef(false);
-  const isSyncingRef = useRef(false);
+  // Tracked beats and bars of the Analyzer track (grid overlay, bar navigation,
+  // loop snapping), on the onset envelope of the selected profile. The worker
+  // sends it before any points, so it is in the cache by the time detection ends.
+  // Not tracked while the BPM Log is still filling in.
+  const isDetectingBpm = bpmProgress !== null;
+  const beats = useMemo(() => {
+    const onset = filteredCacheRef.current?.onset;
+    if (!onset || tempoData.length === 0 || isDetectingBpm) return [];
+    return trackBeats(onset.data, onset.rate, tempoData, filteredCacheRef.current!.duration);
+  }, [tempoData, isDetectingBpm]);
+  const beatTimes = useMemo(() => beats.map(b => b.time), [beats]);
 
   // -- Resize Handlers --
   const handleCompResizeStart = (index: number, e: React.MouseEvent) => {
@@ -113,29 +280,16 @@ const App: React.FC = () => {
 
       const newHeights = [...startHeights];
       
-      // index 0: Resizing between A (0) and B (1)
-      if (index === 0) {
-         // Prevent A from going below 10% and B from going below 10% (relative to their pair sum)
-         const min = 10;
-         const pairSum = startHeights[0] + startHeights[1];
-         
-         let newH0 = startHeights[0] + deltaPercent;
-         newH0 = Math.max(min, Math.min(newH0, pairSum - min));
-         
-         newHeights[0] = newH0;
-         newHeights[1] = pairSum - newH0;
-      } 
-      // index 1: Resizing between B (1) and Diff (2)
-      else if (index === 1) {
-         const min = 10;
-         const pairSum = startHeights[1] + startHeights[2];
-         
-         let newH1 = startHeights[1] + deltaPercent;
-         newH1 = Math.max(min, Math.min(newH1, pairSum - min));
-         
-         newHeights[1] = newH1;
-         newHeights[2] = pairSum - newH1;
-      }
+      // Resizing between pane `index` and the one below it (the last pane is Diff).
+      // Neither may go below the minimum; their pair sum stays constant.
+      const min = 5;
+      const pairSum = startHeights[index] + startHeights[index + 1];
+      
+      let newH = startHeights[index] + deltaPercent;
+      newH = Math.max(min, Math.min(newH, pairSum - min));
+      
+      newHeights[index] = newH;
+      newHeights[index + 1] = pairSum - newH;
 
       setCompHeights(newHeights);
     };
@@ -178,56 +332,103 @@ const App: React.FC = () => {
     setIsPlaying(false);
     setCurrentTime(0);
     // Stop all
-    [wsRefA, wsRefB, wsRefDiffA, wsRefDiffB, wsRefC].forEach(ref => {
-        ref.current?.stop();
+    transportRef.current?.stop();
+    transportRef.current?.seek(0);
+    [...Object.values(slotRefs.current) as WaveSurferInstance[], wsRefC.current].forEach(ws => {
+        if (ws) setDeckDisplayTime(ws, null);
+        ws?.stop();
     });
   };
 
   const handleTabChange = (mode: ViewMode) => {
     resetPlayback();
+    // Loops belong to a timeline, and each tab has its own
+    setLoopRegion(null);
+    setIsLoopEnabled(false);
+    setTimelineView(null);
     setActiveTab(mode);
     // Reset duration based on active tracks
     setTimeout(() => {
         if (mode === 'comparator') {
-            const durA = wsRefA.current?.getDuration() || 0;
-            const durB = wsRefB.current?.getDuration() || 0;
-            setDuration(Math.max(durA, durB));
+            setDuration(getComparatorDuration());
         } else if (mode === 'analyzer') {
             const durC = wsRefC.current?.getDuration() || 0;
             setDuration(durC);
         } else {
-            // Genre mode handles its own duration/playback logic mostly
+            // Genre and Crate modes handle their own duration/playback logic mostly
             setDuration(0);
         }
     }, 100);
   };
 
   // Two-step analysis:
-  // 1. Initial Load: Filter buffer (Slow/Async) -> Store in cache -> Run detection
-  // 2. Interval Change: Run detection on cache (Fast/Sync)
-  
-  const initialTrackAnalysis = async (buffer: AudioBuffer) => {
+  // 1. Initial Load: Filter buffer (offline render) -> Store in cache -> Run detection
+  // 2. Interval Change: Run detection on cache (the worker reuses its tempogram)
+  // Detection runs in a Web Worker and fills the BPM Log as windows complete.
+
+  const cancelBpmDetection = () => {
+    bpmRunRef.current++;
+    filteredCacheRef.current?.analyzer.cancel();
+    setBpmProgress(null);
+  };
+
+  const clearFilteredCache = () => {
+    filteredCacheRef.current?.analyzer.dispose();
+    filteredCacheRef.current = null;
+  };
+
+  const runBpmDetection = (cache: FilteredAudioCache, interval: number) => {
+    cancelBpmDetection();
+    setBpmData([]);
+    setTempoChoices({}); // Picks are per window, the windows are about to change
+    setBpmProgress(0);
+
+    cache.analyzer.analyze(interval, {
+        onPoints: (points, progress) => {
+            setBpmData(prev => [...prev, ...points]);
+            setBpmProgress(progress);
+        },
+        onOnset: (onset, rate) => { cache.onset = { data: onset, rate }; },
+        onDone: () => setBpmProgress(null),
+        onError: (error) => {
+            console.error("BPM detection failed", error);
+            setBpmProgress(null);
+        }
+    });
+  };
+
+  const initialTrackAnalysis = async (buffer: AudioBuffer, interval: number = bpmInterval, profile: BpmProfile = bpmProfile) => {
+    cancelBpmDetection();
+    const run = bpmRunRef.current;
+    let isSuperseded = false;
     setIsAnalyzing(true);
     setBpmData([]); // Clear old data
+    setTempoChoices({});
     try {
         // Step 1: Filter
-        const filtered = await filterAudioBuffer(buffer);
-        
-        // Cache it
-        filteredCacheRef.current = {
-            data: filtered.data,
-            sampleRate: filtered.sampleRate,
-            duration: buffer.duration
+        const filtered = await filterAudioBuffer(buffer, profile);
+        if (run !== bpmRunRef.current) {
+            // A newer track took over, it manages the analyzing flag now
+            isSuperseded = true;
+            return;
+        }
+
+        // Cache the detection worker (it keeps the data and the tempogram)
+        clearFilteredCache();
+        const cache: FilteredAudioCache = {
+            duration: buffer.duration,
+            analyzer: createBpmAnalyzer(filtered.data, filtered.sampleRate, buffer.duration, profile),
+            onset: null
         };
+        filteredCacheRef.current = cache;
         
         // Step 2: Detect with current interval
-        const points = analyzeBpmFromData(filtered.data, filtered.sampleRate, buffer.duration, bpmInterval);
-        setBpmData(points);
+        runBpmDetection(cache, interval);
         
     } catch (e) {
         console.error("Analysis failed", e);
     } finally {
-        setIsAnalyzing(false);
+        if (!isSuperseded) setIsAnalyzing(false);
     }
   };
 
@@ -236,39 +437,84 @@ const App: React.FC = () => {
     
     // Fast path: use cached filtered data
     if (filteredCacheRef.current) {
-        const { data, sampleRate, duration } = filteredCacheRef.current;
-        const points = analyzeBpmFromData(data, sampleRate, duration, newInterval);
-        setBpmData(points);
+        runBpmDetection(filteredCacheRef.current, newInterval);
     } else {
         // Fallback (shouldn't happen if track loaded)
         if (wsRefC.current) {
             const buffer = wsRefC.current.getDecodedData();
-            if (buffer) initialTrackAnalysis(buffer);
+            if (buffer) initialTrackAnalysis(buffer, newInterval);
         }
     }
   };
 
+  // A different profile needs a different filter step, so the track is re-analysed from scratch
+  const handleBpmProfileChange = (newProfile: BpmProfile) => {
+    setBpmProfile(newProfile);
+    const buffer = wsRefC.current?.getDecodedData();
+    if (buffer) initialTrackAnalysis(buffer, bpmInterval, newProfile);
+  };
+
+  // Stop the workers when leaving the app
+  useEffect(() => () => {
+    filteredCacheRef.current?.analyzer.dispose();
+    crateAnalyzerRef.current?.dispose();
+  }, []);
+
+  const handleAddCrateFiles = (files: { file: File; path: string }[]) => {
+    const newTracks: CrateTrack[] = files.map(({ file, path }) => ({
+        id: Math.random().toString(36).substring(2, 9),
+        file,
+        path,
+        status: 'queued',
+    }));
+    setCrateTracks(prev => [...prev, ...newTracks]);
+    if (!crateAnalyzerRef.current) {
+        crateAnalyzerRef.current = createCrateAnalyzer((id, patch) => {
+            setCrateTracks(prev => prev.map(t => t.id === id ? { ...t, ...patch } : t));
+        });
+    }
+    crateAnalyzerRef.current.add(newTracks);
+  };
+
+  const handleClearCrate = () => {
+    crateAnalyzerRef.current?.dispose();
+    crateAnalyzerRef.current = null;
+    setCrateTracks([]);
+  };
+
+  const handlePickTempo = (time: number, bpm: number) => {
+    setTempoChoices(prev => {
+        const next = { ...prev };
+        const detected = bpmData.find(p => p.time === time);
+        if (detected && detected.bpm === bpm) delete next[time];
+        else next[time] = bpm;
+        return next;
+    });
+  };
+
   const handleTrackReady = useCallback(async (id: TrackId, instance: WaveSurferInstance) => {
     // Map IDs to refs
-    if (id === 'A') {
-        wsRefA.current = instance;
-        setWsInstanceA(instance);
-    }
-    else if (id === 'B') {
-        wsRefB.current = instance;
-        setWsInstanceB(instance);
+    if (id !== 'C') {
+        const buffer = instance.getDecodedData();
+        slotRefs.current[id] = instance;
+        setSlotInstances(prev => ({ ...prev, [id]: instance }));
+        setSlotBuffers(prev => {
+            const next = { ...prev };
+            if (buffer) next[id] = buffer;
+            else delete next[id];
+            return next;
+        });
     }
-    else if (id === 'C') {
+    else {
         wsRefC.current = instance;
         setWsInstanceC(instance);
         // Auto analyze BPM when track C is ready
         const buffer = instance.getDecodedData();
+        setBufferC(buffer);
         if (buffer) {
             initialTrackAnalysis(buffer);
         }
     }
-    // Diff tracks handled implicitly
-
     // Note: Volume is now handled by the central useEffect watching state
 
     // Update Duration
@@ -278,90 +524,208 @@ const App: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [activeTab]); 
 
-  // -- Auto Gain Calculation Effect --
+  // -- Key Detection (local chroma analysis of the Analyzer track) --
+  // One chromagram per track; the whole-track key and the per-window keys of
+  // the BPM Log are both sliced from it.
   useEffect(() => {
-    if (!wsInstanceA || !wsInstanceB) {
-        setTrackGains({ A: 1, B: 1 });
+    setChromagramC(null);
+    if (!bufferC) return;
+    let isStale = false;
+    buildTrackChromagram(bufferC)
+        .then(chromagram => { if (!isStale) setChromagramC(chromagram); })
+        .catch(e => console.error("Key detection failed", e));
+    return () => { isStale = true; };
+  }, [bufferC]);
+
+  const keyC = useMemo(
+    () => chromagramC ? estimateKey(chromaInRange(chromagramC, 0, chromagramC.duration)) : null,
+    [chromagramC]
+  );
+  const keyData = useMemo(
+    () => chromagramC ? analyzeKeysFromChromagram(chromagramC, bpmInterval) : [],
+    [chromagramC, bpmInterval]
+  );
+
+  // -- Loudness Measurement (BS.1770 integrated LUFS + LRA) --
+  // Measured per slot so each can be displayed as soon as it is decoded.
+  // Cached per buffer so loading one slot doesn't re-measure the others.
+  const loudnessCacheRef = useRef(new WeakMap<AudioBuffer, LoudnessStats>());
+  const slotLoudness = useMemo(() => {
+    const result: Partial<Record<TrackId, LoudnessStats>> = {};
+    (Object.keys(slotBuffers) as TrackId[]).forEach(id => {
+        const buffer = slotBuffers[id];
+        if (!buffer) return;
+        let stats = loudnessCacheRef.current.get(buffer);
+        if (!stats) {
+            stats = measureLoudness(buffer);
+            loudnessCacheRef.current.set(buffer, stats);
+        }
+        result[id] = stats;
+    });
+    return result;
+  }, [slotBuffers]);
+
+  // -- Auto Gain Calculation --
+  // Every loaded slot is matched to the quietest one, so any pair routed to A/B
+  // (and any slot switched in) plays at the same loudness without clipping.
+  const slotGains = useMemo(() => {
+    const measured = Object.values(slotLoudness) as LoudnessStats[];
+    const target = Math.min(...measured.map(stats => stats.integrated));
+
+    const gains: Partial<Record<TrackId, number>> = {};
+    (Object.keys(slotLoudness) as TrackId[]).forEach(id => {
+        gains[id] = Math.pow(10, (target - slotLoudness[id]!.integrated) / 20);
+    });
+    return gains;
+  }, [slotLoudness]);
+
+  const trackGains = useMemo(() => ({
+    A: (routing.A && slotGains[routing.A]) || 1,
+    B: (routing.B && slotGains[routing.B]) || 1,
+  }), [slotGains, routing]);
+
+  // -- Time Alignment Effect --
+  // Cross-correlate A and B once both are decoded so the null test lines up.
+  const runAlignment = useCallback(() => {
+    const { A: bufA, B: bufB } = decodedBuffers;
+    if (!bufA || !bufB) {
+        setAlignment(null);
         return;
     }
+    setAlignment(estimateAlignment(bufA, bufB));
+  }, [decodedBuffers]);
 
-    const bufA = wsInstanceA.getDecodedData();
-    const bufB = wsInstanceB.getDecodedData();
-
-    if (!bufA || !bufB) return; // Wait for both to be decoded
-
-    const dbA = calculateTrackLoudness(bufA);
-    const dbB = calculateTrackLoudness(bufB);
-
-    // Target the quieter track to avoid clipping the louder one by boosting
-    const target = Math.min(dbA, dbB);
+  useEffect(() => {
+    runAlignment();
+  }, [runAlignment]);
+
+  const handleNudgeAlignment = useCallback((deltaSamples: number) => {
+    setAlignment(prev => {
+        const sampleRate = prev?.sampleRate ?? decodedBuffers.A?.sampleRate ?? SAMPLE_RATE_COMPARATOR;
+        return {
+            lagSamples: (prev?.lagSamples ?? 0) + deltaSamples,
+            sampleRate,
+            confidence: prev?.confidence ?? 0,
+        };
+    });
+  }, [decodedBuffers]);
+
+  // Timeline length in the comparator is the longest track once offsets are applied
+  const getComparatorDuration = useCallback(() => {
+    const durA = wsRefA.current ? wsRefA.current.getDuration() - trackOffsets.A : 0;
+    const durB = wsRefB.current ? wsRefB.current.getDuration() - trackOffsets.B : 0;
+    return Math.max(0, durA, durB);
+  }, [trackOffsets]);
+
+  // -- Residual Effect --
+  // Rendered offline from the decoded buffers so it reflects the actual A - B signal,
+  // always loudness-matched (independent of the Auto-Gain playback toggle).
+  useEffect(() => {
+    const { A: bufA, B: bufB } = decodedBuffers;
+    if (!bufA || !bufB) {
+        setResidual(null);
+        return;
+    }
+    setResidual(computeResidual(bufA, bufB, trackGains, trackOffsets));
+  }, [decodedBuffers, trackGains, trackOffsets]);
 
-    // Calculate linear gain factors
-    const gainA = Math.pow(10, (target - dbA) / 20);
-    const gainB = Math.pow(10, (target - dbB) / 20);
+  useEffect(() => {
+    if (activeTab === 'comparator') {
+        setDuration(getComparatorDuration());
+    }
+  }, [activeTab, getComparatorDuration, decodedBuffers]);
 
-    setTrackGains({ A: gainA, B: gainB });
+  // -- Shared Audio Context & Transport --
+  // A single context for every comparator deck is what makes sample-locked
+  // playback and phase cancellation (Null Test) possible.
+  const getAudioContext = useCallback(() => {
+     if (!audioContextRef.current) {
+        const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+        audioContextRef.current = new AudioContextClass();
+     }
+     return audioContextRef.current;
+  }, []);
 
-  }, [wsInstanceA, wsInstanceB]); // Recalculate if instances change (new track loaded)
+  const getTransport = useCallback(() => {
+     if (!transportRef.current) {
+        transportRef.current = createTransport(getAudioContext());
+     }
+     return transportRef.current;
+  }, [getAudioContext]);
 
   // -- Volume & Effects Helper --
-  // WaveSurfer v7 doesn't support 'setFilters' on the main instance.
-  // We must implement custom routing if we want Phase Inversion.
-  const applyVolumeAndPhase = useCallback((ws: WaveSurferInstance | null, volume: number, phase: number = 1, forceGraph: boolean = false) => {
+  // Comparator and Analyzer decks play through a per-deck Web Audio graph fed by the transport:
+  // input bus -> (Match EQ filters) -> gain (volume * phase) -> destination.
+  // Without a graph the WaveSurfer media element volume is used (idle slots).
+  const applyVolumeAndPhase = useCallback((ws: WaveSurferInstance | null, volume: number, phase: number = 1, forceGraph: boolean = false, rampSeconds: number = GAIN_RAMP_SECONDS) => {
      if (!ws) return;
 
      const instance = ws as any;
-     const media = ws.getMediaElement();
-     
-     if (!media) return;
 
-     // Ensure we have a shared context for reliable phase cancellation (Null Test)
-     // If A and B run on different Contexts, OS mixing latency can break nulling.
-     if (!audioContextRef.current) {
-        const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-        audioContextRef.current = new AudioContextClass();
-     }
-     const ac = audioContextRef.current;
-
-     // Check if we need to upgrade to Web Audio (usually only for phase inversion)
-     // OR if we are forcing it (Diff Mode) to ensure latency matching between A and B.
+     // Upgrade to the graph when forced (transport playback) or for phase inversion.
      // Once upgraded, we stay upgraded to avoid recreating graphs constantly.
      if ((forceGraph || phase === -1) && !instance._audioGraph) {
-         try {
-             // Create graph on shared context
-             // Note: createMediaElementSource can only be called ONCE per element. 
-             // WaveSurfer creates one if using WebAudio backend, but default is MediaElement backend.
-             // We assume default backend here.
-             
-             // Check if already connected to another context (unlikely unless WaveSurfer changed modes)
-             
-             const source = ac.createMediaElementSource(media);
-             const gainNode = ac.createGain();
-             
-             source.connect(gainNode);
-             gainNode.connect(ac.destination);
-             
-             instance._audioGraph = { source, gainNode };
-         } catch (e) {
-             console.warn("Could not create MediaElementSource, possibly already connected.", e);
-         }
+         const ac = getAudioContext();
+         const source = ac.createGain(); // Input bus the transport's buffer sources connect to
+         const gainNode = ac.createGain();
+         
+         source.connect(gainNode);
+         gainNode.connect(ac.destination);
+         
+         instance._audioGraph = { source, gainNode };
      }
 
      if (instance._audioGraph) {
          // Web Audio Mode
+         const ac = getAudioContext();
          const { gainNode } = instance._audioGraph;
          // Apply volume and phase math. GainNode handles negative values as phase inversion.
-         if (gainNode) {
-            gainNode.gain.value = volume * phase;
-         }
-         // Ensure the underlying media element is at full volume so signal reaches the GainNode.
-         // (MediaElementSource ignores volume property in spec, but implementations vary, safer to max).
-         media.volume = 1;
+         // Scheduled as a linear ramp on the context clock: click-free, and two decks ramped
+         // together keep a constant sum for identical material.
+         const now = ac.currentTime;
+         const gain: AudioParam = gainNode.gain;
+         gain.cancelScheduledValues(now);
+         gain.setValueAtTime(gain.value, now);
+         gain.linearRampToValueAtTime(volume * phase, now + rampSeconds);
+         // The media element is display-only from here on; keep it silent.
+         ws.setVolume(0);
 
      } else {
          // Standard Mode
          ws.setVolume(volume);
      }
+  }, [getAudioContext]);
+
+  // -- Match EQ Helper --
+  // Rebuilds the filter chain between the input bus and the gain node of an
+  // instance that has already been upgraded to the Web Audio graph.
+  const applyEqFilters = useCallback((ws: WaveSurferInstance | null, bands: EqBand[]) => {
+     const graph = (ws as any)?._audioGraph;
+     const ac = audioContextRef.current;
+     if (!graph || !ac) return;
+
+     const previous: BiquadFilterNode[] = graph.filters || [];
+     if (previous.length === 0 && bands.length === 0) return;
+
+     graph.source.disconnect();
+     previous.forEach(node => node.disconnect());
+
+     const filters = bands.map(band => {
+         const node = ac.createBiquadFilter();
+         node.type = band.type;
+         node.frequency.value = band.frequency;
+         node.gain.value = band.gain;
+         node.Q.value = band.q;
+         return node;
+     });
+
+     let tail: AudioNode = graph.source;
+     for (const node of filters) {
+         tail.connect(node);
+         tail = node;
+     }
+     tail.connect(graph.gainNode);
+     graph.filters = filters;
   }, []);
 
   // -- Volume & Effects Application Effect --
@@ -369,8 +733,17 @@ const App: React.FC = () => {
      if (activeTab === 'comparator') {
         const gA = autoGain ? trackGains.A : 1;
         const gB = autoGain ? trackGains.B : 1;
+        // A/B toggle uses its configured ramp, everything else the short default
+        const ramp = switchRampRef.current ?? GAIN_RAMP_SECONDS;
+        switchRampRef.current = null;
+
+        if (isAbxRunning) {
+             // Blind ABX: only the selected deck is heard, always loudness-matched
+             const heard = abxListen === 'X' ? abxSession!.x : abxListen;
+             applyVolumeAndPhase(wsRefA.current, heard === 'A' ? trackGains.A : 0, 1, true, ramp);
+             applyVolumeAndPhase(wsRefB.current, heard === 'B' ? trackGains.B : 0, 1, true, ramp);
 
-        if (isDiffMode) {
+        } else if (isDiffMode) {
              // Differential Mode: 
              // 1. Play both tracks at effective full volume (normalized if autoGain on)
              // 2. Invert Phase of Track B
@@ -384,50 +757,179 @@ const App: React.FC = () => {
              // Normal Mode:
              // 1. Apply Crossfader mixing
              // 2. Ensure Phase Inversion is removed from B (phase = 1)
+             // 3. Both decks run through the graph so gain changes can be ramped
 
-             applyVolumeAndPhase(wsRefA.current, (1 - crossfade) * gA, 1);
-             applyVolumeAndPhase(wsRefB.current, crossfade * gB, 1);
+             applyVolumeAndPhase(wsRefA.current, (1 - crossfade) * gA, 1, true, ramp);
+             applyVolumeAndPhase(wsRefB.current, crossfade * gB, 1, true, ramp);
         }
-        
-        // Ensure ghost tracks for difference are silent
-        if (wsRefDiffA.current) wsRefDiffA.current.setVolume(0);
-        if (wsRefDiffB.current) wsRefDiffB.current.setVolume(0);
+
+        // Match EQ audition is routed through Track A's graph (empty list removes it)
+        // (never during ABX, where it would make A recognisable)
+        applyEqFilters(wsRefA.current, isEqAuditioning && eqMatch && !isAbxRunning ? eqMatch.bands : []);
+
+        // Slots not routed to A/B stay silent (and lose any phase flip / EQ they had)
+        (Object.values(slotInstances) as WaveSurferInstance[]).forEach(ws => {
+            if (!ws || ws === wsRefA.current || ws === wsRefB.current) return;
+            applyVolumeAndPhase(ws, 0, 1);
+            applyEqFilters(ws, []);
+        });
 
      } else if (activeTab === 'analyzer') {
-        // Ensure Analyzer track is audible (tracks start at vol 0 to prevent blasting)
-        if (wsRefC.current) wsRefC.current.setVolume(1);
+        // The Analyzer deck plays through the transport too (tracks start at vol 0 to prevent blasting)
+        applyVolumeAndPhase(wsRefC.current, 1, 1, true);
      }
-  }, [crossfade, autoGain, trackGains, activeTab, wsInstanceA, wsInstanceB, wsInstanceC, isDiffMode, applyVolumeAndPhase]);
+  }, [crossfade, autoGain, trackGains, activeTab, wsInstanceA, wsInstanceB, wsInstanceC, slotInstances, isDiffMode, applyVolumeAndPhase, isEqAuditioning, eqMatch, applyEqFilters, isAbxRunning, abxSession, abxListen]);
 
 
-  const handleFileUpload = (id: TrackId, file: File) => {
+  const createTrack = (id: TrackId, file: File): TrackData => {
     const url = URL.createObjectURL(file);
-    const newTrack: TrackData = {
-      id,
-      name: file.name,
-      url,
-      duration: 0,
+    // Hashing reads the whole file, so the marker key arrives a little after the track
+    getTrackKey(file)
+        .then(key => setMarkerKeys(prev => ({ ...prev, [url]: key })))
+        .catch(e => console.error("Could not hash track for markers", e));
+    return {
+        id,
+        name: file.name,
+        url,
+        duration: 0,
     };
+  };
+
+  const handleFileUpload = (id: TrackId, file: File) => {
+    const newTrack = createTrack(id, file);
     
-    if (id === 'A') setTrackA(newTrack);
-    else if (id === 'B') setTrackB(newTrack);
-    else if (id === 'C') {
+    if (id !== 'C') {
+        setSlots(prev => prev.map(slot => slot.id === id ? { ...slot, track: newTrack } : slot));
+    }
+    else {
         setTrackC(newTrack);
+        cancelBpmDetection();
         setBpmData([]); // Reset data immediately
-        filteredCacheRef.current = null; // Clear cache
+        setTempoChoices({});
+        setOctaveLock(null);
+        clearFilteredCache();
     }
     
     if (!isPlaying) setCurrentTime(0);
   };
 
+  // -- Comparator Slot Management --
+  // Files go into empty slots first, then new slots are appended (up to the maximum).
+  const handleAddSlots = (files: File[]) => {
+    const pending = [...files];
+    const next = slots.map(slot => {
+        if (slot.track || pending.length === 0) return slot;
+        return { ...slot, track: createTrack(slot.id, pending.shift()!) };
+    });
+
+    // Called without files it just adds one empty slot
+    const newSlots = files.length === 0 ? 1 : pending.length;
+    for (let i = 0; i < newSlots && next.length < MAX_COMPARATOR_SLOTS; i++) {
+        const id = `${nextSlotIdRef.current++}` as TrackId;
+        const file = pending.shift();
+        next.push({ id, track: file ? createTrack(id, file) : null });
+    }
+
+    setSlots(next);
+    setCompHeights(prev => distributeHeights(next.length, prev[prev.length - 1]));
+  };
+
+  const handleRemoveSlot = (id: TrackId) => {
+    // Two slots are always kept so A and B stay routed
+    if (slots.length <= 2) return;
+    const next = slots.filter(slot => slot.id !== id);
+
+    slotRefs.current[id]?.stop();
+    delete slotRefs.current[id];
+    setSlotInstances(prev => { const copy = { ...prev }; delete copy[id]; return copy; });
+    setSlotBuffers(prev => { const copy = { ...prev }; delete copy[id]; return copy; });
+
+    setRouting(prev => {
+        const replacement = (other: TrackId | null) => next.find(slot => slot.id !== other)?.id ?? null;
+        return {
+            A: prev.A === id ? replacement(prev.B) : prev.A,
+            B: prev.B === id ? replacement(prev.A) : prev.B,
+        };
+    });
+    setSlots(next);
+    setCompHeights(prev => distributeHeights(next.length, prev[prev.length - 1]));
+  };
+
+  // Routes a slot to A or B. Routing the slot already on the other side swaps them.
+  const handleRouteSlot = useCallback((role: DeckRole, id: TrackId) => {
+    setRouting(prev => {
+        const other: DeckRole = role === 'A' ? 'B' : 'A';
+        if (prev[role] === id) return prev;
+        return {
+            ...prev,
+            [role]: id,
+            [other]: prev[other] === id ? prev[role] : prev[other],
+        } as SlotRouting;
+    });
+  }, []);
+
+  // -- ABX Session Handlers --
+  const handleStartAbx = () => {
+    if (!trackA || !trackB) return;
+    setIsDiffMode(false);
+    setAbxListen('X');
+    setAbxSession(createAbxSession(trackA.name, trackB.name));
+  };
+
+  const handleAbxAnswer = (answer: DeckRole) => {
+    setAbxSession(prev => prev ? recordAbxAnswer(prev, answer) : prev);
+    setAbxListen('X');
+  };
+
+  const handleFinishAbx = () => {
+    setAbxSession(prev => prev ? { ...prev, finishedAt: new Date().toISOString() } : prev);
+  };
+
+  // Instant A/B switch: jumps the crossfader to the other side with a ramped
+  // gain change. Both decks keep playing, so the switch is gapless.
+  const handleToggleAB = useCallback(() => {
+    switchRampRef.current = switchRampMs / 1000;
+    setCrossfade(prev => prev <= 0.5 ? 1 : 0);
+  }, [switchRampMs]);
+
+  // Number keys switch slots: 1-9 replaces the side currently heard on the
+  // crossfader, Shift + 1-9 replaces the other side. S toggles A/B.
+  // Disabled during ABX.
+  useEffect(() => {
+    if (activeTab !== 'comparator' || isAbxRunning) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+        const target = e.target as HTMLElement;
+        if (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA') return;
+        if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+        if (e.code === 'KeyS' && !e.shiftKey) {
+            e.preventDefault();
+            if (!isDiffMode) handleToggleAB();
+            return;
+        }
+
+        const match = /^Digit([1-9])$/.exec(e.code);
+        if (!match) return;
+        const slot = slots[Number(match[1]) - 1];
+        if (!slot) return;
+
+        e.preventDefault();
+        const heard: DeckRole = isDiffMode || crossfade <= 0.5 ? 'A' : 'B';
+        const role: DeckRole = e.shiftKey ? (heard === 'A' ? 'B' : 'A') : heard;
+        handleRouteSlot(role, slot.id);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [activeTab, slots, crossfade, isDiffMode, handleRouteSlot, isAbxRunning, handleToggleAB]);
+
   // Helper to act on all active instances
   const activeInstances = useCallback(() => {
     if (activeTab === 'comparator') {
         return [
             wsRefA.current, 
-            wsRefB.current, 
-            wsRefDiffA.current, 
-            wsRefDiffB.current
+            wsRefB.current
         ].filter(Boolean) as WaveSurferInstance[];
     } else if (activeTab === 'analyzer') {
         return [wsRefC.current].filter(Boolean) as WaveSurferInstance[];
@@ -435,44 +937,81 @@ const App: React.FC = () => {
     return [];
   }, [activeTab]);
 
+  // Per-instance playback offset from the alignment (instance time = timeline time + offset)
+  const getInstanceOffset = useCallback((ws: WaveSurferInstance | null) => {
+    if (!ws || activeTab !== 'comparator') return 0;
+    if (ws === wsRefA.current) return trackOffsets.A;
+    if (ws === wsRefB.current) return trackOffsets.B;
+    return 0;
+  }, [activeTab, trackOffsets]);
+
+  // Decks the transport plays, through their graphs: the slots routed to A and B,
+  // or the Analyzer deck
+  const getTransportDecks = useCallback((): TransportDeck[] => {
+    const decks: TransportDeck[] = [];
+    if (activeTab === 'analyzer') {
+        const graph = (wsRefC.current as any)?._audioGraph;
+        if (bufferC && graph) decks.push({ buffer: bufferC, output: graph.source, offset: 0 });
+        return decks;
+    }
+    (['A', 'B'] as DeckRole[]).forEach(role => {
+        const ws = role === 'A' ? wsRefA.current : wsRefB.current;
+        const buffer = decodedBuffers[role];
+        const graph = (ws as any)?._audioGraph;
+        if (ws && buffer && graph) {
+            decks.push({ buffer, output: graph.source, offset: trackOffsets[role] });
+        }
+    });
+    return decks;
+  }, [activeTab, bufferC, decodedBuffers, trackOffsets]);
+
+  // Parks the decks' media elements at a timeline position (nothing plays there)
+  // once playback stops or seeks; while playing, the cursors follow the
+  // transport clock without seeking them.
+  const showTransportTime = useCallback((time: number) => {
+    activeInstances().forEach(ws => {
+        setDeckDisplayTime(ws, null);
+        ws.setTime(time + getInstanceOffset(ws));
+    });
+  }, [activeInstances, getInstanceOffset]);
+
   const togglePlay = useCallback(() => {
     const targetState = !isPlaying;
     setIsPlaying(targetState);
     
-    const instances = activeInstances();
-
     // Ensure AudioContext is running (browser autoplay policy)
     if (audioContextRef.current && audioContextRef.current.state === 'suspended') {
         audioContextRef.current.resume();
     }
 
+    // Every deck is scheduled on the shared context clock
+    const transport = getTransport();
     if (targetState) {
-      instances.forEach(ws => {
-         ws.setTime(currentTime);
-         ws.play();
-      });
+        transport.play(currentTime, getTransportDecks(), activeLoop);
     } else {
-      instances.forEach(ws => ws.pause());
+        transport.stop();
+        showTransportTime(transport.getTime());
     }
-  }, [isPlaying, currentTime, activeInstances]);
+  }, [isPlaying, currentTime, getTransport, getTransportDecks, activeLoop, showTransportTime]);
 
   const handleStop = useCallback(() => {
     setIsPlaying(false);
-    activeInstances().forEach(ws => ws.stop());
+    const transport = getTransport();
+    transport.stop();
+    transport.seek(0);
+    showTransportTime(0);
     setCurrentTime(0);
-  }, [activeInstances]);
+  }, [getTransport, showTransportTime]);
 
   const handleSeek = useCallback((progress: number) => {
-    isSeekingRef.current = true;
     const time = progress * duration;
     setCurrentTime(time);
 
-    activeInstances().forEach(ws => ws.seekTo(progress));
-
-    setTimeout(() => {
-      isSeekingRef.current = false;
-    }, 100);
-  }, [duration, activeInstances]);
+    const transport = getTransport();
+    if (transport.isPlaying()) transport.play(time, getTransportDecks(), activeLoop);
+    else transport.seek(time);
+    showTransportTime(time);
+  }, [duration, getTransport, getTransportDecks, showTransportTime, activeLoop]);
 
   const handleSkip = useCallback((seconds: number) => {
     if (!duration) return;
@@ -481,53 +1020,210 @@ const App: React.FC = () => {
     handleSeek(progress);
   }, [currentTime, duration, handleSeek]);
 
-  const handleBpmClick = useCallback((time: number) => {
+  const handleSeekToTime = useCallback((time: number) => {
     if (!duration) return;
-    const progress = time / duration;
+    const progress = Math.max(0, Math.min(1, time / duration));
     handleSeek(progress);
   }, [duration, handleSeek]);
 
-  // Sync Logic
-  const handleTimeUpdate = useCallback((time: number, sourceId: string) => {
-    if (isSeekingRef.current) return;
-    if (isSyncingRef.current) return;
-    
-    // In Analyzer mode, simple pass through
-    if (activeTab === 'analyzer') {
+  // -- Transport Clock --
+  // While playing, the timeline position comes from the AudioContext clock and
+  // drives the Ruler, the waveform cursors and the meters (which read the decks).
+  useEffect(() => {
+    if (!isTimelineTab || !isPlaying) return;
+    const transport = getTransport();
+    let raf = 0;
+
+    const tick = () => {
+        const time = transport.getTime();
+        if (duration > 0 && time >= duration) {
+            transport.stop();
+            transport.seek(duration);
+            setIsPlaying(false);
+            setCurrentTime(duration);
+            showTransportTime(duration);
+            return;
+        }
         setCurrentTime(time);
-        return;
-    }
-    
-    // Genre mode doesn't use the main ruler transport sync in this implementation
-    if (activeTab === 'genre') return;
+        activeInstances().forEach(ws => setDeckDisplayTime(ws, time + getInstanceOffset(ws)));
+        raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
 
-    // Comparator Mode Sync
-    const masterId = trackA ? 'A' : 'B';
-    
-    if (sourceId === masterId) {
-        setCurrentTime(time);
+    return () => cancelAnimationFrame(raf);
+  }, [isTimelineTab, isPlaying, duration, getTransport, showTransportTime, activeInstances, getInstanceOffset]);
 
-        if (isPlaying) {
-            const masterWs = sourceId === 'A' ? wsRefA.current : wsRefB.current;
-            if (!masterWs) return;
+  // Re-routing, re-aligning, loading a new Analyzer track or changing the loop during
+  // playback reschedules the decks from the current timeline position with their new offsets.
+  useEffect(() => {
+    const transport = transportRef.current;
+    if (!isTimelineTab || !transport?.isPlaying()) return;
+    transport.play(transport.getTime(), getTransportDecks(), activeLoop);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [wsInstanceA, wsInstanceB, decodedBuffers, trackOffsets, bufferC, activeLoop]);
 
-            const masterTime = masterWs.getCurrentTime();
-            const others = activeInstances().filter(ws => ws && ws !== masterWs);
+  // A newly drawn loop is enabled right away; clearing it also stops looping
+  const handleLoopChange = useCallback((loop: LoopRegion | null) => {
+    setLoopRegion(loop);
+    setIsLoopEnabled(!!loop);
+  }, []);
 
-            others.forEach(slave => {
-                const diff = Math.abs(masterTime - slave.getCurrentTime());
-                if (diff > 0.04) { 
-                   isSyncingRef.current = true;
-                   slave.setTime(masterTime);
-                }
-            });
-            
-            if (isSyncingRef.current) {
-                setTimeout(() => { isSyncingRef.current = false; }, 10);
-            }
+  // -- Marker Handlers --
+  // Saved right here rather than in an effect, so switching tracks never writes
+  // one track's markers under another track's key.
+  const updateMarkers = useCallback((next: Marker[]) => {
+    if (!markerKey) return;
+    const sorted = sortMarkers(next);
+    setMarkers(sorted);
+    saveMarkers(markerKey, sorted);
+  }, [markerKey]);
+
+  const handleAddMarker = useCallback(() => {
+    updateMarkers([...markers, {
+        id: createMarkerId(),
+        name: `Marker ${markers.length + 1}`,
+        start: currentTime + markerOffset,
+        end: null,
+    }]);
+  }, [markers, currentTime, markerOffset, updateMarkers]);
+
+  // Regions are taken from the loop drawn on the Ruler
+  const handleAddRegion = useCallback(() => {
+    if (!loopRegion) return;
+    updateMarkers([...markers, {
+        id: createMarkerId(),
+        name: `Region ${markers.length + 1}`,
+        start: loopRegion.start + markerOffset,
+        end: loopRegion.end + markerOffset,
+    }]);
+  }, [markers, loopRegion, markerOffset, updateMarkers]);
+
+  const handleRenameMarker = (id: string, name: string) => {
+    updateMarkers(markers.map(m => m.id === id ? { ...m, name } : m));
+  };
+
+  const handleDeleteMarker = (id: string) => {
+    updateMarkers(markers.filter(m => m.id !== id));
+  };
+
+  // Imported markers are merged in; re-importing a JSON export replaces the same ids
+  const handleImportMarkers = async (file: File) => {
+    try {
+        const imported = parseMarkers(await file.text(), file.name);
+        if (imported.length === 0) {
+            setMarkerImportError(`No markers found in ${file.name}`);
+            return;
         }
+        const ids = new Set(imported.map(m => m.id));
+        updateMarkers([...markers.filter(m => !ids.has(m.id)), ...imported]);
+        setMarkerImportError(null);
+    } catch (e) {
+        console.error("Marker import failed", e);
+        setMarkerImportError(`Could not read ${file.name}`);
     }
-  }, [trackA, trackB, isPlaying, activeTab, activeInstances]);
+  };
+
+  const handleExportMarkers = (format: MarkerFormat) => {
+    if (!markerTrack) return;
+    const name = baseName(markerTrack.name);
+    if (format === 'json') downloadFile(`${name}-markers.json`, serializeMarkers(markers, format, markerTrack.name), 'application/json');
+    else if (format === 'csv') downloadFile(`${name}-markers.csv`, serializeMarkers(markers, format, markerTrack.name), 'text/csv');
+    else downloadFile(`${name}-labels.txt`, serializeMarkers(markers, format, markerTrack.name), 'text/plain');
+  };
+
+  // M drops a marker at the playhead (Comparator and Analyzer)
+  useEffect(() => {
+    if (!markerKey) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+        const target = e.target as HTMLElement;
+        if (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA') return;
+        if (e.ctrlKey || e.metaKey || e.altKey || e.shiftKey || e.code !== 'KeyM') return;
+        e.preventDefault();
+        handleAddMarker();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [markerKey, handleAddMarker]);
+
+  // -- Timeline Zoom & Scroll --
+  // Views covering the whole timeline collapse back to null so they follow duration changes
+  const handleViewChange = useCallback((next: TimelineView | null) => {
+    if (!next || duration <= 0) {
+        setTimelineView(null);
+        return;
+    }
+    const clamped = clampView(next, duration, MIN_VIEW_SECONDS);
+    setTimelineView(isFullView(clamped, duration) ? null : clamped);
+  }, [duration]);
+
+  // Wheel / pinch zooms around the pointer, horizontal wheel or Shift + wheel scrolls.
+  // Only over elements marked data-timeline (Ruler, decks, difference lane), and
+  // as a native listener so the pinch doesn't also zoom the page.
+  useEffect(() => {
+    const main = mainRef.current;
+    if (!main) return;
+
+    const handleWheel = (e: WheelEvent) => {
+        const area = (e.target as HTMLElement).closest<HTMLElement>('[data-timeline]');
+        if (!area || duration <= 0) return;
+        e.preventDefault();
+
+        const rect = area.getBoundingClientRect();
+        const unit = e.deltaMode === 1 ? 16 : e.deltaMode === 2 ? rect.width : 1; // Lines / pages to px
+        const dx = (e.shiftKey ? e.deltaY : e.deltaX) * unit;
+        const dy = e.shiftKey ? 0 : e.deltaY * unit;
+        const length = view.end - view.start;
+
+        if (Math.abs(dx) > Math.abs(dy)) {
+            handleViewChange(panView(view, (dx / rect.width) * length, duration, MIN_VIEW_SECONDS));
+        } else {
+            const anchor = view.start + ((e.clientX - rect.left) / rect.width) * length;
+            const rate = e.ctrlKey || e.metaKey ? PINCH_ZOOM_RATE : WHEEL_ZOOM_RATE;
+            handleViewChange(zoomView(view, Math.exp(dy * rate), anchor, duration, MIN_VIEW_SECONDS));
+        }
+    };
+
+    main.addEventListener('wheel', handleWheel, { passive: false });
+    return () => main.removeEventListener('wheel', handleWheel);
+  }, [view, duration, handleViewChange]);
+
+  // While playing, page the view along when the playhead runs out of it (but
+  // leave it alone if the user scrolled away from the playhead)
+  const lastPlayheadRef = useRef(0);
+  useEffect(() => {
+    const last = lastPlayheadRef.current;
+    lastPlayheadRef.current = currentTime;
+    if (!isPlaying || !timelineView) return;
+    const inView = (time: number) => time >= view.start && time <= view.end;
+    if (!inView(last) || inView(currentTime)) return;
+    handleViewChange({ start: currentTime, end: currentTime + view.end - view.start });
+  }, [isPlaying, currentTime, timelineView, view, handleViewChange]);
+
+  // [ and ] jump to the previous / next bar in the Analyzer
+  useEffect(() => {
+    if (activeTab !== 'analyzer' || beats.length === 0) return;
+    const downbeats = beats.filter(b => b.beat === 1 && b.bar > 0).map(b => b.time);
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+        const target = e.target as HTMLElement;
+        if (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA') return;
+        if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+        // Small tolerance so repeated presses step past the bar just landed on
+        let time: number | undefined;
+        if (e.code === 'BracketLeft') time = [...downbeats].reverse().find(t => t < currentTime - 0.05);
+        else if (e.code === 'BracketRight') time = downbeats.find(t => t > currentTime + 0.01);
+        else return;
+
+        e.preventDefault();
+        if (time !== undefined) handleSeekToTime(time);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [activeTab, beats, currentTime, handleSeekToTime]);
 
   const handleCrossfadeChange = useCallback((value: number) => {
     setCrossfade(value);
@@ -579,10 +1275,32 @@ const App: React.FC = () => {
                 <Sparkles size={14} className="text-fuchsia-400" />
                 Genre Analyzer
              </button>
+             <button 
+                onClick={() => handleTabChange('crate')}
+                className={clsx(
+                    "px-4 py-1.5 rounded-md text-sm font-medium transition-all flex items-center gap-2",
+                    activeTab === 'crate' ? "bg-slate-700 text-white shadow" : "text-slate-400 hover:text-slate-200"
+                )}
+             >
+                <FolderOpen size={14} />
+                Crate
+             </button>
           </nav>
         </div>
         
         <div className="flex gap-2">
+           {isTimelineTab && (
+             <button 
+               onClick={() => setIsMarkerPanelOpen(!isMarkerPanelOpen)}
+               className={clsx(
+                 "p-2 transition-colors",
+                 isMarkerPanelOpen ? "text-sky-300" : "text-slate-500 hover:text-slate-300"
+               )}
+               title="Markers"
+             >
+               <Bookmark size={20} />
+             </button>
+           )}
            <button 
              onClick={() => setIsInfoOpen(true)}
              className="p-2 text-slate-500 hover:text-slate-300 transition-colors"
@@ -593,91 +1311,163 @@ const App: React.FC = () => {
       </header>
 
       {/* Main Workspace */}
-      <main className="flex-1 flex flex-col relative overflow-hidden">
+      <main ref={mainRef} className="flex-1 flex flex-col relative overflow-hidden">
         
-        {/* Top Ruler (Shared, but optional for Genre tab) */}
-        {activeTab !== 'genre' && (
-            <div className="h-12 bg-slate-900 border-b border-slate-800 relative shrink-0 z-20">
-            <Ruler 
-                duration={duration} 
-                currentTime={currentTime} 
-                onSeek={handleSeek} 
-                playheadMaxLength={activeTab === 'analyzer' ? `${analyzerHeight + 48}px` : undefined}
-            />
-            </div>
-        )}
-
         <div className="flex-1 flex overflow-hidden relative">
+            {/* Timeline Column: the Ruler sits above the tracks so both share one width (and time axis) */}
+            <div className="flex-1 flex flex-col overflow-hidden relative">
+
+            {/* Overview + Top Ruler (Shared, but optional for Genre tab) */}
+            {isTimelineTab && (
+                <>
+                <div className="h-5 bg-slate-950 border-b border-slate-800 shrink-0">
+                <TimelineOverview 
+                    duration={duration}
+                    view={view}
+                    currentTime={currentTime}
+                    buffer={activeTab === 'analyzer' ? bufferC : decodedBuffers.A}
+                    offset={activeTab === 'comparator' ? trackOffsets.A : 0}
+                    color={activeTab === 'analyzer' ? COLOR_TRACK_C : COLOR_TRACK_A}
+                    onViewChange={handleViewChange}
+                />
+                </div>
+                <div data-timeline className="h-12 bg-slate-900 border-b border-slate-800 relative shrink-0 z-20">
+                <Ruler 
+                    duration={duration} 
+                    currentTime={currentTime} 
+                    onSeek={handleSeek} 
+                    playheadMaxLength={activeTab === 'analyzer' ? `${analyzerHeight + 48}px` : undefined}
+                    loop={loopRegion}
+                    isLoopEnabled={isLoopEnabled}
+                    onLoopChange={handleLoopChange}
+                    snapTimes={activeTab === 'analyzer' ? beatTimes : undefined}
+                    beats={activeTab === 'analyzer' ? beats : undefined}
+                    markers={timelineMarkers}
+                    view={view}
+                />
+                </div>
+                </>
+            )}
+
             {/* Tracks Area Container */}
             <div ref={containerRef} className="flex-1 flex flex-col overflow-hidden relative">
             
             {/* COMPARATOR VIEW */}
             {activeTab === 'comparator' && (
                 <>
-                    {/* Track A */}
-                    <div 
-                        className="relative bg-slate-900/30 overflow-hidden" 
-                        style={{ height: `${compHeights[0]}%` }}
-                    >
-                        <TrackDeck 
-                            id="A" 
-                            track={trackA} 
-                            color={COLOR_TRACK_A}
-                            onUpload={(f) => handleFileUpload('A', f)}
-                            onReady={handleTrackReady}
-                            onTimeUpdate={(t) => handleTimeUpdate(t, 'A')}
-                        />
-                    </div>
-                    
-                    <ResizeHandle onMouseDown={(e) => handleCompResizeStart(0, e)} />
-
-                    {/* Track B */}
-                    <div 
-                        className="relative bg-slate-900/30 overflow-hidden" 
-                        style={{ height: `${compHeights[1]}%` }}
-                    >
-                        <TrackDeck 
-                            id="B" 
-                            track={trackB} 
-                            color={COLOR_TRACK_B}
-                            onUpload={(f) => handleFileUpload('B', f)}
-                            onReady={handleTrackReady}
-                            onTimeUpdate={(t) => handleTimeUpdate(t, 'B')}
-                        />
-                    </div>
+                    {/* Comparator Slots */}
+                    {slots.map((slot, index) => {
+                        const role: DeckRole | null = slot.id === routing.A ? 'A' : slot.id === routing.B ? 'B' : null;
+                        return (
+                            <React.Fragment key={slot.id}>
+                                <div 
+                                    data-timeline
+                                    className={clsx("relative overflow-hidden group/slot", role ? "bg-slate-900/30" : "bg-slate-950")}
+                                    style={{ height: `${compHeights[index]}%` }}
+                                >
+                                    <TrackDeck 
+                                        id={slot.id} 
+                                        label={`${index + 1}`}
+                                        track={slot.track} 
+                                        color={role === 'A' ? COLOR_TRACK_A : role === 'B' ? COLOR_TRACK_B : COLOR_SLOT_IDLE}
+                                        sampleRate={SAMPLE_RATE_COMPARATOR}
+                                        loudness={slotLoudness[slot.id]}
+                                        hideName={isAbxRunning}
+                                        onUpload={(f) => handleFileUpload(slot.id, f)}
+                                        onReady={handleTrackReady}
+                                        view={view}
+                                        offset={role ? trackOffsets[role] : 0}
+                                    />
+
+                                    {/* Routing: which slots feed the crossfader / difference view (locked during ABX) */}
+                                    <div className={clsx("absolute bottom-3 left-4 z-20 flex items-center gap-1", isAbxRunning && "hidden")}>
+                                        {(['A', 'B'] as DeckRole[]).map(r => (
+                                            <button
+                                                key={r}
+                                                onClick={() => handleRouteSlot(r, slot.id)}
+                                                className={clsx(
+                                                    "w-6 h-5 rounded text-[10px] font-bold border transition-colors",
+                                                    role === r
+                                                        ? (r === 'A' ? "text-cyan-300 border-cyan-500/40 bg-cyan-900/30" : "text-fuchsia-300 border-fuchsia-500/40 bg-fuchsia-900/30")
+                                                        : "text-slate-500 border-slate-700 hover:text-slate-300"
+                                                )}
+                                                title={`Route to ${r}`}
+                                            >
+                                                {r}
+                                            </button>
+                                        ))}
+                                        {slots.length > 2 && (
+                                            <button
+                                                onClick={() => handleRemoveSlot(slot.id)}
+                                                className="p-0.5 rounded text-slate-600 hover:text-white hover:bg-slate-800 transition-colors opacity-0 group-hover/slot:opacity-100"
+                                                title="Remove Slot"
+                                            >
+                                                <X size={12} />
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
 
-                    <ResizeHandle onMouseDown={(e) => handleCompResizeStart(1, e)} />
+                                <ResizeHandle onMouseDown={(e) => handleCompResizeStart(index, e)} />
+                            </React.Fragment>
+                        );
+                    })}
 
-                    {/* Difference Overlay */}
+                    {/* Difference (Residual A - B) */}
                     <div 
+                        data-timeline
                         className="relative bg-black overflow-hidden"
-                        style={{ height: `${compHeights[2]}%` }}
+                        style={{ height: `${compHeights[slots.length]}%` }}
                     >
-                        <div className="absolute top-3 left-4 z-20 text-xs font-bold text-slate-500 uppercase tracking-wider pointer-events-none">
-                            Difference Overlay
-                        </div>
-                        
-                        {/* Track A Ghost */}
-                        <div className="absolute inset-0 z-0 opacity-80">
-                        <TrackDeck 
-                            id="A" 
-                            track={trackA} 
-                            color={COLOR_TRACK_A}
-                            onReady={(id, ws) => { wsRefDiffA.current = ws; ws.setVolume(0); }}
-                            readOnly
-                        />
+                        <div className="absolute top-3 left-4 z-20 flex items-center gap-2">
+                            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider pointer-events-none">
+                                Difference (A − B)
+                            </span>
+                            <button
+                                onClick={() => setIsNullReportOpen(!isNullReportOpen)}
+                                className={clsx(
+                                    "p-1 rounded transition-colors",
+                                    isNullReportOpen ? "text-rose-300 bg-rose-900/30" : "text-slate-500 hover:text-slate-300 hover:bg-slate-800"
+                                )}
+                                title="Null Test Report"
+                            >
+                                <ClipboardList size={12} />
+                            </button>
                         </div>
 
-                        {/* Track B Ghost */}
-                        <div className="absolute inset-0 z-10 mix-blend-difference opacity-100">
-                        <TrackDeck 
-                            id="B" 
-                            track={trackB} 
-                            color={COLOR_TRACK_B}
-                            onReady={(id, ws) => { wsRefDiffB.current = ws; ws.setVolume(0); }}
-                            readOnly
+                        {/* Add Slots (multiple files fill empty slots, then append) */}
+                        {slots.length < MAX_COMPARATOR_SLOTS && (
+                            <div className="absolute top-3 right-4 z-20 flex items-center gap-1">
+                                <button
+                                    onClick={() => handleAddSlots([])}
+                                    className="p-1 rounded text-slate-500 hover:text-slate-300 hover:bg-slate-800 transition-colors"
+                                    title="Add Empty Slot"
+                                >
+                                    <Plus size={12} />
+                                </button>
+                                <label className="cursor-pointer px-1.5 py-0.5 rounded text-[10px] font-bold border border-slate-700 text-slate-500 hover:text-slate-300 transition-colors" title="Load Tracks into Slots">
+                                    LOAD…
+                                    <input
+                                        type="file"
+                                        accept="audio/*"
+                                        multiple
+                                        className="hidden"
+                                        onChange={(e) => {
+                                            if (e.target.files) handleAddSlots(Array.from(e.target.files));
+                                            e.target.value = '';
+                                        }}
+                                    />
+                                </label>
+                            </div>
+                        )}
+                        
+                        <ResidualWaveform 
+                            residual={residual}
+                            duration={duration}
+                            view={view}
+                            currentTime={currentTime}
+                            color={COLOR_RESIDUAL}
                         />
-                        </div>
                     </div>
                 </>
             )}
@@ -687,16 +1477,19 @@ const App: React.FC = () => {
                 <>
                     {/* Track C (Analyzer) */}
                     <div 
+                        data-timeline
                         className="shrink-0 relative bg-slate-900/30 overflow-hidden"
                         style={{ height: analyzerHeight }}
                     >
                         <TrackDeck 
                             id="C" 
                             track={trackC} 
-                            color="#a855f7" // Purple-500
+                            color={COLOR_TRACK_C}
                             onUpload={(f) => handleFileUpload('C', f)}
                             onReady={handleTrackReady}
-                            onTimeUpdate={(t) => handleTimeUpdate(t, 'C')}
+                            sampleRate={SAMPLE_RATE_ANALYZER}
+                            view={view}
+                            beats={beats}
                         />
                         {isAnalyzing && (
                             <div className="absolute inset-0 bg-slate-950/80 flex items-center justify-center z-50">
@@ -713,13 +1506,23 @@ const App: React.FC = () => {
                     {/* BPM Log */}
                     <div className="flex-1 bg-slate-950 overflow-hidden min-h-[100px]">
                         <BpmLog 
-                            data={bpmData} 
+                            data={tempoData} 
                             currentTime={currentTime} 
-                            onRowClick={handleBpmClick}
+                            onRowClick={handleSeekToTime}
                             interval={bpmInterval}
                             onIntervalChange={handleBpmIntervalChange}
+                            profile={bpmProfile}
+                            onProfileChange={handleBpmProfileChange}
                             hasTrack={!!trackC}
                             isAnalyzing={isAnalyzing}
+                            progress={bpmProgress}
+                            onCancel={cancelBpmDetection}
+                            trackName={trackC?.name}
+                            musicalKey={keyC}
+                            keyData={keyData}
+                            onPickCandidate={handlePickTempo}
+                            octaveLock={octaveLock}
+                            onOctaveLockChange={setOctaveLock}
                         />
                     </div>
                 </>
@@ -737,26 +1540,197 @@ const App: React.FC = () => {
                 </div>
             )}
 
+            {/* CRATE ANALYZER VIEW */}
+            {activeTab === 'crate' && (
+                <div className="flex-1 flex flex-col bg-slate-950 overflow-hidden">
+                    <CrateAnalyzer
+                        tracks={crateTracks}
+                        onAddFiles={handleAddCrateFiles}
+                        onRemove={(id) => setCrateTracks(prev => prev.filter(t => t.id !== id))}
+                        onCancel={() => crateAnalyzerRef.current?.cancel()}
+                        onClear={handleClearCrate}
+                    />
+                </div>
+            )}
+
+            </div>
             </div>
 
+            {/* Markers (Comparator & Analyzer) */}
+            {isTimelineTab && isMarkerPanelOpen && (
+                <div className="w-72 border-l border-slate-800 z-20 shrink-0 overflow-hidden">
+                    <MarkerPanel 
+                        markers={timelineMarkers}
+                        trackName={markerKey ? markerTrack?.name ?? null : null}
+                        currentTime={currentTime}
+                        onSeek={handleSeekToTime}
+                        onAddMarker={handleAddMarker}
+                        onAddRegion={loopRegion ? handleAddRegion : undefined}
+                        onRename={handleRenameMarker}
+                        onDelete={handleDeleteMarker}
+                        onImport={handleImportMarkers}
+                        importError={markerImportError}
+                        onDismissError={() => setMarkerImportError(null)}
+                        onExport={handleExportMarkers}
+                        onClose={() => setIsMarkerPanelOpen(false)}
+                    />
+                </div>
+            )}
+
+            {/* Null Test Report (Comparator Only) */}
+            {activeTab === 'comparator' && isNullReportOpen && (
+                <div className="w-80 border-l border-slate-800 z-20 shrink-0 overflow-hidden">
+                    <NullTestPanel 
+                        report={nullTestReport}
+                        thresholdDb={nullThresholdDb}
+                        onThresholdChange={setNullThresholdDb}
+                        onRangeClick={handleSeekToTime}
+                        currentTime={currentTime}
+                        exportName={trackA && trackB ? `${baseName(trackA.name)}_vs_${baseName(trackB.name)}` : 'comparison'}
+                        onClose={() => setIsNullReportOpen(false)}
+                    />
+                </div>
+            )}
+
+            {/* Spectrum Analyzer (Comparator Only) */}
+            {activeTab === 'comparator' && isSpectrumOpen && (
+                <div className="w-96 border-l border-slate-800 z-20 shrink-0 overflow-hidden">
+                    <SpectrumAnalyzer 
+                        sources={spectrumSources}
+                        onClose={() => setIsSpectrumOpen(false)}
+                    />
+                </div>
+            )}
+
+            {/* Match EQ (Comparator Only) */}
+            {activeTab === 'comparator' && isEqMatchOpen && (
+                <div className="w-80 border-l border-slate-800 z-20 shrink-0 overflow-hidden">
+                    <EqMatchPanel 
+                        result={eqMatch}
+                        isAuditioning={isEqAuditioning}
+                        onToggleAudition={() => setIsEqAuditioning(!isEqAuditioning)}
+                        exportName={trackA && trackB ? `${baseName(trackA.name)}_to_${baseName(trackB.name)}` : 'comparison'}
+                        onClose={() => setIsEqMatchOpen(false)}
+                    />
+                </div>
+            )}
+
+            {/* ABX Test (Comparator Only) */}
+            {activeTab === 'comparator' && isAbxOpen && (
+                <div className="w-72 border-l border-slate-800 z-20 shrink-0 overflow-hidden">
+                    <AbxPanel 
+                        session={abxSession}
+                        listen={abxListen}
+                        onListen={setAbxListen}
+                        onStart={handleStartAbx}
+                        onAnswer={handleAbxAnswer}
+                        onFinish={handleFinishAbx}
+                        canStart={!!trackA && !!trackB}
+                        onClose={() => setIsAbxOpen(false)}
+                    />
+                </div>
+            )}
+
             {/* Meter Bridge (Comparator Only) */}
             {activeTab === 'comparator' && (
-                <div className="w-24 bg-slate-950 border-l border-slate-800 flex flex-col z-20 shrink-0">
-                    <div className="flex-1 flex flex-col items-center py-2 overflow-hidden gap-1">
-                        <span className="text-[10px] font-bold text-cyan-400 tracking-wider">TRACK A</span>
-                        <AudioMeter ws={wsInstanceA} className="w-full h-full" />
+                <div className={clsx("bg-slate-950 border-l border-slate-800 flex flex-col z-20 shrink-0", showScopes ? "w-64" : "w-24")}>
+                    {/* Scope Controls */}
+                    <div className="min-h-8 flex flex-wrap items-center justify-center gap-1 border-b border-slate-800 px-1 py-1 shrink-0">
+                        <button
+                            onClick={() => setShowScopes(!showScopes)}
+                            className={clsx(
+                                "p-1 rounded transition-colors",
+                                showScopes ? "text-cyan-300 bg-cyan-900/30" : "text-slate-500 hover:text-slate-300 hover:bg-slate-800"
+                            )}
+                            title="Vectorscope"
+                        >
+                            <Orbit size={14} />
+                        </button>
+                        <button
+                            onClick={() => setIsSpectrumOpen(!isSpectrumOpen)}
+                            className={clsx(
+                                "p-1 rounded transition-colors",
+                                isSpectrumOpen ? "text-cyan-300 bg-cyan-900/30" : "text-slate-500 hover:text-slate-300 hover:bg-slate-800"
+                            )}
+                            title="Spectrum Analyzer"
+                        >
+                            <AudioLines size={14} />
+                        </button>
+                        <button
+                            onClick={() => setIsEqMatchOpen(!isEqMatchOpen)}
+                            className={clsx(
+                                "p-1 rounded transition-colors",
+                                isEqMatchOpen ? "text-amber-300 bg-amber-900/30" : "text-slate-500 hover:text-slate-300 hover:bg-slate-800"
+                            )}
+                            title="Match EQ"
+                        >
+                            <SlidersHorizontal size={14} />
+                        </button>
+                        <button
+                            onClick={() => setIsAbxOpen(!isAbxOpen)}
+                            className={clsx(
+                                "p-1 rounded transition-colors",
+                                isAbxOpen ? "text-emerald-300 bg-emerald-900/30" : "text-slate-500 hover:text-slate-300 hover:bg-slate-800"
+                            )}
+                            title="Blind ABX Test"
+                        >
+                            <Dices size={14} />
+                        </button>
+                        {showScopes && (
+                            <>
+                                <select
+                                    value={scopeMode}
+                                    onChange={(e) => setScopeMode(e.target.value as ScopeMode)}
+                                    className="bg-slate-800 text-[10px] text-slate-300 rounded px-1 py-0.5 outline-none border border-slate-700"
+                                    style={{ colorScheme: 'dark' }}
+                                    title="Scope Mode"
+                                >
+                                    <option value="ms">M/S</option>
+                                    <option value="lissajous">L/R</option>
+                                </select>
+                                <select
+                                    value={scopePersistence}
+                                    onChange={(e) => setScopePersistence(e.target.value as ScopePersistence)}
+                                    className="bg-slate-800 text-[10px] text-slate-300 rounded px-1 py-0.5 outline-none border border-slate-700"
+                                    style={{ colorScheme: 'dark' }}
+                                    title="Persistence"
+                                >
+                                    <option value="off">No Trail</option>
+                                    <option value="short">Short</option>
+                                    <option value="long">Long</option>
+                                </select>
+                            </>
+                        )}
+                    </div>
+                    <div className="flex-1 flex overflow-hidden">
+                        <div className="w-24 shrink-0 flex flex-col items-center py-2 overflow-hidden gap-1">
+                            <span className="text-[10px] font-bold text-cyan-400 tracking-wider">TRACK A</span>
+                            <AudioMeter ws={wsInstanceA} className="w-full h-full" />
+                        </div>
+                        {showScopes && (
+                            <div className="flex-1 flex items-center py-2 pr-2 overflow-hidden">
+                                <Vectorscope ws={wsInstanceA} color={COLOR_TRACK_A} mode={scopeMode} persistence={scopePersistence} className="w-full aspect-[10/11]" />
+                            </div>
+                        )}
                     </div>
                     <div className="h-px w-full bg-slate-800" />
-                    <div className="flex-1 flex flex-col items-center py-2 overflow-hidden gap-1">
-                        <span className="text-[10px] font-bold text-fuchsia-400 tracking-wider">TRACK B</span>
-                        <AudioMeter ws={wsInstanceB} className="w-full h-full" />
+                    <div className="flex-1 flex overflow-hidden">
+                        <div className="w-24 shrink-0 flex flex-col items-center py-2 overflow-hidden gap-1">
+                            <span className="text-[10px] font-bold text-fuchsia-400 tracking-wider">TRACK B</span>
+                            <AudioMeter ws={wsInstanceB} className="w-full h-full" />
+                        </div>
+                        {showScopes && (
+                            <div className="flex-1 flex items-center py-2 pr-2 overflow-hidden">
+                                <Vectorscope ws={wsInstanceB} color={COLOR_TRACK_B} mode={scopeMode} persistence={scopePersistence} className="w-full aspect-[10/11]" />
+                            </div>
+                        )}
                     </div>
                 </div>
             )}
         </div>
 
         {/* Bottom Controls Bar (Shared but hidden in Genre view if not needed, or we can keep it for consistent footer feel) */}
-        {activeTab !== 'genre' && (
+        {isTimelineTab && (
             <div className="h-24 bg-slate-950 border-t border-slate-800 p-4 z-30 flex items-center justify-center gap-8 shadow-[0_-4px_20px_rgba(0,0,0,0.5)] shrink-0">
             <MixerControls 
                 isPlaying={isPlaying}
@@ -772,7 +1746,15 @@ const App: React.FC = () => {
                 onToggleAutoGain={() => setAutoGain(!autoGain)}
                 isDiffMode={isDiffMode}
                 onToggleDiffMode={() => setIsDiffMode(!isDiffMode)}
-                showCrossfader={activeTab === 'comparator'}
+                showCrossfader={activeTab === 'comparator' && !isAbxRunning}
+                alignment={activeTab === 'comparator' ? alignment : undefined}
+                onAlign={activeTab === 'comparator' && trackA && trackB ? runAlignment : undefined}
+                onNudgeAlignment={activeTab === 'comparator' && trackA && trackB ? handleNudgeAlignment : undefined}
+                onToggleAB={activeTab === 'comparator' ? handleToggleAB : undefined}
+                isLooping={isLoopEnabled}
+                onToggleLoop={loopRegion ? () => setIsLoopEnabled(!isLoopEnabled) : undefined}
+                switchRampMs={switchRampMs}
+                onSwitchRampChange={setSwitchRampMs}
             />
             </div>
         )}
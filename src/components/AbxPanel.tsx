@@ -0,0 +1,209 @@
+import React from 'react';
+import { FileJson, FileSpreadsheet, X, Dices, Play, Flag } from 'lucide-react';
+import clsx from 'clsx';
+import { AbxSession, DeckRole } from '../types';
+import { summarizeAbx } from '../utils/abx';
+import { downloadJson, downloadCsv } from '../utils/export';
+
+export type AbxListen = DeckRole | 'X';
+
+interface AbxPanelProps {
+  session: AbxSession | null;
+  listen: AbxListen;
+  onListen: (listen: AbxListen) => void;
+  onStart: () => void;
+  onAnswer: (answer: DeckRole) => void;
+  onFinish: () => void;
+  canStart: boolean;
+  onClose: () => void;
+}
+
+// Conventional threshold for "reliably heard a difference"
+const SIGNIFICANCE = 0.05;
+
+const formatP = (p: number) => p < 0.001 ? '< 0.001' : p.toFixed(3);
+
+export const AbxPanel: React.FC<AbxPanelProps> = ({
+  session,
+  listen,
+  onListen,
+  onStart,
+  onAnswer,
+  onFinish,
+  canStart,
+  onClose
+}) => {
+  const summary = session ? summarizeAbx(session) : null;
+  const isRunning = !!session && !session.finishedAt;
+  const isFinished = !!session?.finishedAt;
+
+  const exportName = `abx-${session?.startedAt.slice(0, 19).replace(/[:T]/g, '-') ?? 'session'}`;
+
+  const handleExportJson = () => {
+    if (!session || !summary) return;
+    downloadJson(`${exportName}.json`, { ...session, summary });
+  };
+
+  const handleExportCsv = () => {
+    if (!session) return;
+    downloadCsv(
+      `${exportName}.csv`,
+      ['trial', 'x', 'answer', 'correct', 'answered_at'],
+      session.trials.map(t => [t.index, t.x, t.answer, t.correct ? 1 : 0, t.answeredAt])
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-slate-950">
+      {/* Header */}
+      <div className="px-4 py-3 bg-slate-900 border-b border-slate-800 flex justify-between items-center shrink-0">
+        <h3 className="text-sm font-bold text-slate-300 uppercase tracking-wider flex items-center gap-2">
+          <Dices size={16} className="text-emerald-400" />
+          ABX Test
+        </h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={handleExportJson}
+            disabled={!isFinished}
+            className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+            title="Export JSON"
+          >
+            <FileJson size={14} />
+          </button>
+          <button
+            onClick={handleExportCsv}
+            disabled={!isFinished}
+            className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+            title="Export CSV"
+          >
+            <FileSpreadsheet size={14} />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded text-slate-500 hover:text-white hover:bg-slate-800 transition-colors"
+            title="Close"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      {/* Start */}
+      {!isRunning && (
+        <div className="p-4 border-b border-slate-800 shrink-0">
+          <button
+            onClick={onStart}
+            disabled={!canStart}
+            className="w-full py-2 rounded bg-emerald-600 hover:bg-emerald-500 text-white text-xs font-bold uppercase tracking-wider flex items-center justify-center gap-2 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+          >
+            <Play size={12} />
+            {isFinished ? 'New Session' : 'Start Session'}
+          </button>
+          {!canStart && (
+            <p className="text-[10px] text-slate-500 text-center mt-2">Route a track to both A and B first.</p>
+          )}
+        </div>
+      )}
+
+      {/* Trial */}
+      {isRunning && summary && (
+        <div className="p-4 border-b border-slate-800 space-y-4 shrink-0">
+          <div className="text-[10px] text-slate-500 font-bold uppercase tracking-wider text-center">
+            Trial {summary.total + 1}
+          </div>
+
+          {/* Listen */}
+          <div className="grid grid-cols-3 gap-2">
+            {(['A', 'B', 'X'] as AbxListen[]).map(option => (
+              <button
+                key={option}
+                onClick={() => onListen(option)}
+                className={clsx(
+                  "py-3 rounded border font-bold font-mono transition-colors",
+                  listen === option
+                    ? "text-emerald-300 border-emerald-500/50 bg-emerald-900/30"
+                    : "text-slate-400 border-slate-700 hover:text-slate-200 hover:bg-slate-900"
+                )}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+
+          {/* Answer */}
+          <div className="grid grid-cols-2 gap-2">
+            {(['A', 'B'] as DeckRole[]).map(answer => (
+              <button
+                key={answer}
+                onClick={() => onAnswer(answer)}
+                className="py-2 rounded bg-slate-800 hover:bg-slate-700 text-slate-200 text-xs font-bold transition-colors"
+              >
+                X is {answer}
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={onFinish}
+            disabled={summary.total === 0}
+            className="w-full py-1.5 rounded border border-slate-700 text-slate-400 hover:text-white text-[10px] font-bold uppercase tracking-wider flex items-center justify-center gap-2 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+          >
+            <Flag size={12} />
+            Finish & Reveal
+          </button>
+        </div>
+      )}
+
+      {/* Result (withheld while running so earlier trials can't give X away) */}
+      {isFinished && session && summary && (
+        <div className="grid grid-cols-2 gap-2 p-4 border-b border-slate-800 shrink-0">
+          <div className="bg-slate-900 rounded border border-slate-800 p-2 text-center">
+            <div className="text-[9px] text-slate-500 font-bold uppercase tracking-wider">Correct</div>
+            <div className="font-mono text-sm font-bold text-slate-200">{summary.correct} / {summary.total}</div>
+          </div>
+          <div className="bg-slate-900 rounded border border-slate-800 p-2 text-center">
+            <div className="text-[9px] text-slate-500 font-bold uppercase tracking-wider">p-value</div>
+            <div className={clsx(
+              "font-mono text-sm font-bold",
+              summary.total > 0 && summary.pValue < SIGNIFICANCE ? "text-emerald-300" : "text-slate-200"
+            )}>
+              {formatP(summary.pValue)}
+            </div>
+          </div>
+          <div className="col-span-2 text-[10px] font-mono space-y-1 pt-1">
+            <div className="truncate"><span className="text-cyan-400 font-bold">A</span> <span className="text-slate-300">{session.trackA}</span></div>
+            <div className="truncate"><span className="text-fuchsia-400 font-bold">B</span> <span className="text-slate-300">{session.trackB}</span></div>
+          </div>
+        </div>
+      )}
+
+      {/* Log (X and results only revealed once finished) */}
+      <div className="flex-1 overflow-y-auto p-2">
+        {session && session.trials.length > 0 && (
+          <table className="w-full text-left border-collapse">
+            <thead className="text-[10px] text-slate-500 uppercase">
+              <tr>
+                <th className="pb-2 pl-2">#</th>
+                <th className="pb-2">Answer</th>
+                <th className="pb-2">X</th>
+                <th className="pb-2">Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {session.trials.map(trial => (
+                <tr key={trial.index} className="border-b border-slate-800/50 text-xs font-mono text-slate-400">
+                  <td className="py-1.5 pl-2">{trial.index}</td>
+                  <td className="py-1.5">{trial.answer}</td>
+                  <td className="py-1.5">{isFinished ? trial.x : '?'}</td>
+                  <td className={clsx("py-1.5", isFinished && (trial.correct ? "text-emerald-400" : "text-rose-400"))}>
+                    {isFinished ? (trial.correct ? 'Correct' : 'Wrong') : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
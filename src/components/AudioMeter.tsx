@@ -1,14 +1,21 @@
 import React, { useEffect, useRef } from 'react';
 import { WaveSurferInstance } from '../types';
+import { kWeightedSubBlockPowers, loudnessAt, truePeak } from '../utils/loudness';
+import { getPlayheadWindow } from '../utils/audioAnalysis';
 
 interface AudioMeterProps {
   ws: WaveSurferInstance | null;
   className?: string;
 }
 
+// How long the true-peak hold marker stays before falling (ms)
+const PEAK_HOLD_MS = 2000;
+
 export const AudioMeter: React.FC<AudioMeterProps> = ({ ws, className }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const rafRef = useRef<number>(0);
+  // Clip latch is reset by clicking the meter
+  const clipRef = useRef(false);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -27,83 +34,102 @@ export const AudioMeter: React.FC<AudioMeterProps> = ({ ws, className }) => {
     const width = rect.width;
     const height = rect.height;
 
+    // K-weighted 100ms powers for the whole track, computed once per decoded buffer
+    let cachedBuffer: AudioBuffer | null = null;
+    let subBlocks: Float64Array | null = null;
+
     // State for smooth falloff
     let peakVal = -60;
-    let lufsVal = -60;
+    let holdVal = -60;
+    let holdTime = 0;
+    let momentaryVal = -60;
+    let shortTermVal = -60;
     let corrVal = 1;
+    let lastSample = -1;
 
     const draw = () => {
       // 1. Acquire Data
       let currentPeak = -60;
-      let currentLufs = -60; // Approximate via RMS
+      let currentMomentary = -60;
+      let currentShortTerm = -60;
       let currentCorr = 1;
 
-      if (ws && ws.isPlaying()) {
-        const buffer = ws.getDecodedData();
-        const currentTime = ws.getCurrentTime();
-        
-        if (buffer) {
-          const sampleRate = buffer.sampleRate;
-          // Analyze 50ms window
-          const startSample = Math.floor(currentTime * sampleRate);
-          const endSample = startSample + Math.floor(0.05 * sampleRate);
-          
-          if (endSample < buffer.length) {
-            const ch0 = buffer.getChannelData(0).subarray(startSample, endSample);
-            // Handle Stereo for correlation, fallback to Mono (ch0) if mono file
-            const ch1 = buffer.numberOfChannels > 1 
-                ? buffer.getChannelData(1).subarray(startSample, endSample) 
-                : ch0;
-            
-            // Calculate Metrics
-            let sumSqL = 0;
-            let sumSqR = 0;
-            let sumProd = 0;
-            let maxAmp = 0;
-
-            for (let i = 0; i < ch0.length; i++) {
-              const sL = ch0[i];
-              const sR = ch1[i];
-              
-              const absL = Math.abs(sL);
-              const absR = Math.abs(sR);
-              if (absL > maxAmp) maxAmp = absL;
-              if (absR > maxAmp) maxAmp = absR;
-
-              sumSqL += sL * sL;
-              sumSqR += sR * sR;
-              sumProd += sL * sR;
-            }
-
-            // True Peak (dB)
-            // True peak is theoretically higher than sample peak, but sample peak is standard for simple meters.
-            currentPeak = maxAmp > 0 ? 20 * Math.log10(maxAmp) : -60;
-
-            // LUFS (Proxy via RMS dB)
-            const rms = Math.sqrt((sumSqL + sumSqR) / (2 * ch0.length));
-            currentLufs = rms > 0 ? 20 * Math.log10(rms) : -60;
-
-            // Correlation
-            // formula: sum(L*R) / sqrt(sum(L^2)*sum(R^2))
-            const denominator = Math.sqrt(sumSqL * sumSqR);
-            if (denominator > 0.000001) {
-                currentCorr = sumProd / denominator;
-            }
-          }
+      // Analyze 50ms window at the playhead
+      const win = getPlayheadWindow(ws);
+
+      if (win) {
+        const { buffer, left: ch0, right: ch1, startSample, endSample } = win;
+        const sampleRate = buffer.sampleRate;
+
+        if (buffer !== cachedBuffer) {
+          cachedBuffer = buffer;
+          subBlocks = kWeightedSubBlockPowers(buffer);
+          lastSample = -1;
+        }
+
+        // Momentary (400ms) / Short-term (3s) loudness ending at the playhead
+        if (subBlocks) {
+          const { momentary, shortTerm } = loudnessAt(subBlocks, startSample / sampleRate);
+          currentMomentary = Math.max(-60, momentary);
+          currentShortTerm = Math.max(-60, shortTerm);
+        }
+
+        // Calculate Metrics
+        let sumSqL = 0;
+        let sumSqR = 0;
+        let sumProd = 0;
+
+        for (let i = 0; i < ch0.length; i++) {
+          const sL = ch0[i];
+          const sR = ch1[i];
+          sumSqL += sL * sL;
+          sumSqR += sR * sR;
+          sumProd += sL * sR;
+        }
+
+        // True Peak (dBTP), 4x oversampled.
+        // Scan everything since the previous frame so no inter-sample peak is skipped.
+        const peakStart = lastSample >= 0 && lastSample < startSample && startSample - lastSample < sampleRate
+            ? lastSample
+            : startSample;
+        let maxAmp = 0;
+        for (let c = 0; c < buffer.numberOfChannels; c++) {
+          maxAmp = Math.max(maxAmp, truePeak(buffer.getChannelData(c), peakStart, endSample));
+        }
+        lastSample = endSample;
+        currentPeak = maxAmp > 0 ? 20 * Math.log10(maxAmp) : -60;
+
+        // Correlation
+        // formula: sum(L*R) / sqrt(sum(L^2)*sum(R^2))
+        const denominator = Math.sqrt(sumSqL * sumSqR);
+        if (denominator > 0.000001) {
+            currentCorr = sumProd / denominator;
         }
       }
 
       // 2. Smooth Physics (Falloff)
       peakVal = Math.max(currentPeak, peakVal - 1.5); // Fast attack, slowish decay
-      lufsVal = (lufsVal * 0.95) + (currentLufs * 0.05); // Slow smoothing
+      const now = performance.now();
+      if (currentPeak >= holdVal) {
+        holdVal = currentPeak;
+        holdTime = now;
+      } else if (now - holdTime > PEAK_HOLD_MS) {
+        holdVal = Math.max(peakVal, holdVal - 0.5);
+      }
+      if (currentPeak > 0) clipRef.current = true;
+      // Loudness values are already integrated over 400ms / 3s; only light smoothing to avoid 100ms steps
+      momentaryVal = (momentaryVal * 0.7) + (currentMomentary * 0.3);
+      shortTermVal = (shortTermVal * 0.9) + (currentShortTerm * 0.1);
       corrVal = (corrVal * 0.9) + (currentCorr * 0.1);
 
       // 3. Render
       ctx.clearRect(0, 0, width, height);
       
       const bottomAreaHeight = 12; // Height for correlation bar
-      const meterHeight = height - bottomAreaHeight - 4;
-      const meterWidth = (width - 6) / 2; // 2 bars with gap
+      const labelHeight = 22; // Value + label text under the bars
+      const meterHeight = height - bottomAreaHeight - labelHeight;
+      const gap = 3;
+      const meterWidth = (width - gap * 2) / 3; // 3 bars with gaps
 
       // -- Helper: dB to Y position --
       // Range: 0dB (top) to -60dB (bottom)
@@ -113,45 +139,44 @@ export const AudioMeter: React.FC<AudioMeterProps> = ({ ws, className }) => {
         return percent * meterHeight;
       };
 
-      // -- DRAW LUFS (Left Bar) --
-      const lufsY = dbToY(lufsVal);
-      ctx.fillStyle = '#1e293b'; // bg
-      ctx.fillRect(0, 0, meterWidth, meterHeight);
-      
-      // Target Zone (-14 LUFS)
-      const targetY = dbToY(-14);
-      ctx.fillStyle = '#10b981'; // Green target line
-      ctx.fillRect(0, targetY, meterWidth, 1);
-
-      // Bar
       // Gradient: Green (-14) -> Yellow (-8) -> Red (0)
       const gradL = ctx.createLinearGradient(0, 0, 0, meterHeight);
       gradL.addColorStop(0, '#ef4444');    // Red at top
       gradL.addColorStop(0.2, '#eab308');  // Yellow
       gradL.addColorStop(0.4, '#10b981');  // Green at -14ish
       gradL.addColorStop(1, '#064e3b');    // Dark green
-      
-      ctx.fillStyle = gradL;
-      ctx.fillRect(0, lufsY, meterWidth, meterHeight - lufsY);
-      
-      // Label
-      ctx.fillStyle = '#94a3b8';
-      ctx.font = '9px monospace';
-      ctx.fillText('LUFS', 0, height - bottomAreaHeight - 6);
+
+      const drawLoudnessBar = (x: number, value: number, label: string) => {
+        ctx.fillStyle = '#1e293b'; // bg
+        ctx.fillRect(x, 0, meterWidth, meterHeight);
+
+        // Target Zone (-14 LUFS)
+        ctx.fillStyle = '#10b981'; // Green target line
+        ctx.fillRect(x, dbToY(-14), meterWidth, 1);
+
+        const y = dbToY(value);
+        ctx.fillStyle = gradL;
+        ctx.fillRect(x, y, meterWidth, meterHeight - y);
+
+        // Value + Label
+        ctx.fillStyle = '#e2e8f0';
+        ctx.font = '9px monospace';
+        ctx.fillText(value <= -59.5 ? '-inf' : value.toFixed(1), x, meterHeight + 10);
+        ctx.fillStyle = '#94a3b8';
+        ctx.fillText(label, x, meterHeight + 20);
+      };
+
+      // -- DRAW LOUDNESS (Momentary, Short-term) --
+      drawLoudnessBar(0, momentaryVal, 'M');
+      drawLoudnessBar(meterWidth + gap, shortTermVal, 'S');
 
 
-      // -- DRAW PEAK (Right Bar) --
+      // -- DRAW TRUE PEAK (Right Bar) --
       const peakY = dbToY(peakVal);
-      const x2 = meterWidth + 4;
+      const x3 = (meterWidth + gap) * 2;
       
       ctx.fillStyle = '#1e293b';
-      ctx.fillRect(x2, 0, meterWidth, meterHeight);
-
-      // Clip indicator (Top box)
-      if (peakVal > -0.1) {
-         ctx.fillStyle = '#ef4444'; // Red clip
-         ctx.fillRect(x2, 0, meterWidth, 4);
-      }
+      ctx.fillRect(x3, 0, meterWidth, meterHeight);
 
       // Bar
       const gradP = ctx.createLinearGradient(0, 0, 0, meterHeight);
@@ -159,11 +184,23 @@ export const AudioMeter: React.FC<AudioMeterProps> = ({ ws, className }) => {
       gradP.addColorStop(1, '#3b82f6'); // Blue
 
       ctx.fillStyle = gradP;
-      ctx.fillRect(x2, peakY, meterWidth, meterHeight - peakY);
+      ctx.fillRect(x3, peakY, meterWidth, meterHeight - peakY);
+
+      // Peak hold marker
+      ctx.fillStyle = holdVal > 0 ? '#ef4444' : '#f8fafc';
+      ctx.fillRect(x3, dbToY(holdVal), meterWidth, 2);
+
+      // Clip indicator (Top box, latched until clicked)
+      if (clipRef.current) {
+         ctx.fillStyle = '#ef4444'; // Red clip
+         ctx.fillRect(x3, 0, meterWidth, 4);
+      }
 
-      // Label
+      // Value (held) + Label
+      ctx.fillStyle = holdVal > 0 ? '#ef4444' : '#e2e8f0';
+      ctx.fillText(holdVal <= -59.5 ? '-inf' : holdVal.toFixed(1), x3, meterHeight + 10);
       ctx.fillStyle = '#94a3b8';
-      ctx.fillText('PEAK', x2, height - bottomAreaHeight - 6);
+      ctx.fillText('TP', x3, meterHeight + 20);
 
 
       // -- DRAW CORRELATION (Bottom) --
@@ -195,5 +232,12 @@ export const AudioMeter: React.FC<AudioMeterProps> = ({ ws, className }) => {
     return () => cancelAnimationFrame(rafRef.current);
   }, [ws]);
 
-  return <canvas ref={canvasRef} className={className} />;
+  return (
+    <canvas 
+      ref={canvasRef} 
+      className={className} 
+      onClick={() => { clipRef.current = false; }}
+      title="M: Momentary LUFS, S: Short-term LUFS, TP: True Peak dBTP (click to reset clip)"
+    />
+  );
 };
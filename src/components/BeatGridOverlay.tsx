@@ -0,0 +1,61 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Beat, TimelineView } from '../types';
+import { COLOR_BEAT_GRID } from '../constants';
+import { beatGridLines } from '../utils/timelineView';
+
+interface BeatGridOverlayProps {
+  beats: Beat[];
+  view: TimelineView; // In the deck's own time
+  className?: string;
+}
+
+// Beat and bar lines drawn over a deck, with bar numbers along the bottom
+export const BeatGridOverlay: React.FC<BeatGridOverlayProps> = ({ beats, view, className }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // Track container size
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const observer = new ResizeObserver((entries) => {
+      for (const entry of entries) {
+        setSize({
+          width: Math.floor(entry.contentRect.width),
+          height: Math.floor(entry.contentRect.height),
+        });
+      }
+    });
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || size.width === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = size.width * dpr;
+    canvas.height = size.height * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, size.width, size.height);
+
+    ctx.font = '9px monospace';
+    for (const line of beatGridLines(beats, view, size.width)) {
+      const x = Math.round(line.x) + 0.5;
+      ctx.fillStyle = `${COLOR_BEAT_GRID}${line.isDownbeat ? '50' : '1c'}`;
+      ctx.fillRect(x, 0, 1, size.height);
+      if (line.label) {
+        ctx.fillStyle = `${COLOR_BEAT_GRID}90`;
+        ctx.fillText(line.label, x + 3, size.height - 4);
+      }
+    }
+  }, [beats, view, size]);
+
+  return (
+    <div ref={containerRef} className={className}>
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+    </div>
+  );
+};
@@ -1,8 +1,13 @@
 
 import React, { useEffect, useRef, useState, useMemo } from 'react';
-import { BpmPoint } from '../types';
+import { BpmPoint, BpmProfile, KeyEstimate, KeyPoint } from '../types';
 import clsx from 'clsx';
-import { Activity, Lock, Unlock, Clock, AlertCircle, Wand2 } from 'lucide-react';
+import { Activity, Lock, Unlock, Clock, AlertCircle, AlertTriangle, Wand2, FileJson, FileSpreadsheet, FileMusic, Anchor, X, AudioWaveform, Shuffle } from 'lucide-react';
+import { downloadFile, downloadJson, downloadCsv, baseName } from '../utils/export';
+import { buildTempoMap, tempoMapToMidi } from '../utils/tempoMap';
+import { LOW_BPM_CONFIDENCE } from '../utils/bpm';
+import { LOW_KEY_CONFIDENCE, shortKeyName } from '../utils/key';
+import { KeyBadge } from './KeyBadge';
 
 interface BpmLogProps {
   data: BpmPoint[];
@@ -10,8 +15,18 @@ interface BpmLogProps {
   onRowClick: (time: number) => void;
   interval: number;
   onIntervalChange: (val: number) => void;
+  profile: BpmProfile;
+  onProfileChange: (profile: BpmProfile) => void;
   hasTrack: boolean;
   isAnalyzing: boolean;
+  progress: number | null; // Detection progress (0-1) while the log fills in
+  onCancel: () => void;
+  trackName?: string; // Used for export file names and the MIDI track name
+  musicalKey?: KeyEstimate | null; // Whole-track key estimate
+  keyData?: KeyPoint[]; // Key of the same windows, matched to rows by time
+  onPickCandidate: (time: number, bpm: number) => void; // Picking the detected tempo clears the choice
+  octaveLock: number | null; // Reference tempo every window is folded towards
+  onOctaveLockChange: (bpm: number | null) => void;
 }
 
 const formatTime = (seconds: number) => {
@@ -23,14 +38,32 @@ const formatTime = (seconds: number) => {
 // 0 represents "Auto"
 const INTERVAL_OPTIONS = [0, 0.5, 1, 2, 5, 10, 30];
 
+const PROFILE_OPTIONS: { value: BpmProfile; label: string; title: string }[] = [
+    { value: 'lowpass', label: 'Low-pass', title: 'Kick and snare energy below 400Hz (beat-driven music)' },
+    { value: 'multiband', label: 'Multi-band', title: 'Spectral flux across several bands (ambient, classical, hi-hat driven)' },
+];
+
+// Candidate chips within this (relative) of the row's tempo show as selected
+const SAME_TEMPO = 0.005;
+
 export const BpmLog: React.FC<BpmLogProps> = ({ 
     data, 
     currentTime, 
     onRowClick, 
     interval, 
     onIntervalChange,
+    profile,
+    onProfileChange,
     hasTrack,
-    isAnalyzing
+    isAnalyzing,
+    progress,
+    onCancel,
+    trackName = 'track',
+    musicalKey,
+    keyData = [],
+    onPickCandidate,
+    octaveLock,
+    onOctaveLockChange
 }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
   const activeRowRef = useRef<HTMLTableRowElement>(null);
@@ -64,6 +97,27 @@ export const BpmLog: React.FC<BpmLogProps> = ({
     return (sum / data.length).toFixed(1);
   }, [data]);
 
+  const keysByTime = useMemo(() => new Map(keyData.map(k => [k.time, k])), [keyData]);
+  const modulationCount = useMemo(() => keyData.filter(k => k.modulation).length, [keyData]);
+
+  // -- Tempo Map Export --
+  const exportName = `${baseName(trackName)}-tempo`;
+
+  const handleExportMidi = () => {
+    downloadFile(`${exportName}.mid`, tempoMapToMidi(data, trackName), 'audio/midi');
+  };
+
+  const handleExportCsv = () => {
+    downloadCsv(`${exportName}.csv`, ['time_s', 'bpm', 'confidence', 'key', 'camelot'], data.map(p => {
+        const key = keysByTime.get(p.time)?.key;
+        return [p.time.toFixed(3), p.bpm.toFixed(2), p.confidence.toFixed(2), key?.name ?? '', key?.camelot ?? ''];
+    }));
+  };
+
+  const handleExportJson = () => {
+    downloadJson(`${exportName}.json`, { track: trackName, key: musicalKey ?? null, interval, profile, octaveLock, points: data, keys: keyData, tempoMap: buildTempoMap(data) });
+  };
+
   useEffect(() => {
     if (autoScroll && activeRowRef.current) {
         // Use scrollIntoView for robust scrolling regardless of container offset context
@@ -85,11 +139,13 @@ export const BpmLog: React.FC<BpmLogProps> = ({
         );
     }
     
-    if (isAnalyzing) {
+    if (isAnalyzing || progress !== null) {
         return (
             <div className="flex flex-col items-center justify-center h-full text-fuchsia-400 gap-4">
                 <Activity size={48} className="animate-bounce opacity-50" />
-                <p className="animate-pulse">Processing Audio...</p>
+                <p className="animate-pulse">
+                    {isAnalyzing ? "Processing Audio..." : `Detecting Tempo... ${Math.round((progress ?? 0) * 100)}%`}
+                </p>
             </div>
         );
     }
@@ -122,6 +178,49 @@ export const BpmLog: React.FC<BpmLogProps> = ({
                     </div>
                 )}
 
+                {/* Key */}
+                {musicalKey && <KeyBadge estimate={musicalKey} />}
+                {modulationCount > 0 && (
+                    <span className="flex items-center gap-1 text-[10px] text-cyan-300 shrink-0" title="Key changes between windows (highlighted rows)">
+                        <Shuffle size={12} />
+                        {modulationCount}
+                    </span>
+                )}
+
+                {/* Detection Progress */}
+                {progress !== null && (
+                    <div className="flex items-center gap-2 shrink-0">
+                        <div className="w-20 h-1.5 rounded-full bg-slate-800 overflow-hidden">
+                            <div className="h-full bg-fuchsia-500 transition-all duration-200" style={{ width: `${progress * 100}%` }} />
+                        </div>
+                        <span className="font-mono text-[10px] text-fuchsia-300 w-8">{Math.round(progress * 100)}%</span>
+                        <button
+                            onClick={onCancel}
+                            className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+                            title="Stop detection (keeps the windows analyzed so far)"
+                        >
+                            <X size={12} />
+                        </button>
+                    </div>
+                )}
+
+                {/* Octave Lock: fold every window into the octave around the current average */}
+                {averageBpm !== null && (
+                    <button
+                        onClick={() => onOctaveLockChange(octaveLock ? null : Number(averageBpm))}
+                        className={clsx(
+                            "flex items-center gap-1.5 px-2.5 py-1 rounded text-xs font-medium transition-colors border shrink-0",
+                            octaveLock
+                                ? "bg-fuchsia-900/30 border-fuchsia-500/50 text-fuchsia-300 hover:bg-fuchsia-900/50"
+                                : "bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200"
+                        )}
+                        title={octaveLock ? "Unlock octave" : `Lock every window to the octave around ${averageBpm} BPM (no half/double time jumps)`}
+                    >
+                        <Anchor size={12} />
+                        <span className="hidden sm:inline">{octaveLock ? `Octave ${octaveLock.toFixed(0)}` : "Octave"}</span>
+                    </button>
+                )}
+
                 {/* Interval Selector */}
                 <div className="flex items-center gap-2 bg-slate-800 px-2 py-1 rounded border border-slate-700 hover:border-slate-600 transition-colors shrink-0">
                     <Clock size={12} className={clsx(interval === 0 ? "text-cyan-400" : "text-slate-400")} />
@@ -145,9 +244,61 @@ export const BpmLog: React.FC<BpmLogProps> = ({
                     {interval === 0 && <Wand2 size={10} className="text-cyan-400 animate-pulse" />}
                 </div>
 
+                {/* Detection Profile */}
+                <div
+                    className="flex items-center gap-2 bg-slate-800 px-2 py-1 rounded border border-slate-700 hover:border-slate-600 transition-colors shrink-0"
+                    title={PROFILE_OPTIONS.find(o => o.value === profile)?.title}
+                >
+                    <AudioWaveform size={12} className={clsx(profile === 'multiband' ? "text-cyan-400" : "text-slate-400")} />
+                    <select
+                        value={profile}
+                        onChange={(e) => onProfileChange(e.target.value as BpmProfile)}
+                        disabled={!hasTrack || isAnalyzing}
+                        className={clsx(
+                            "bg-transparent text-xs text-slate-200 outline-none cursor-pointer pr-1",
+                            (!hasTrack || isAnalyzing) && "opacity-50 cursor-not-allowed"
+                        )}
+                        style={{ colorScheme: 'dark' }}
+                    >
+                        {PROFILE_OPTIONS.map(opt => (
+                            <option key={opt.value} value={opt.value} className="bg-slate-900 text-slate-200" title={opt.title}>
+                                {opt.label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+
                 <div className="h-4 w-px bg-slate-700 shrink-0" />
 
                 <span className="text-xs text-slate-500 hidden sm:inline shrink-0">{data.length} pts</span>
+
+                {/* Tempo Map Export */}
+                <div className="flex items-center gap-0.5 shrink-0">
+                    <button
+                        onClick={handleExportMidi}
+                        disabled={data.length === 0}
+                        className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                        title="Export Tempo Map (MIDI)"
+                    >
+                        <FileMusic size={14} />
+                    </button>
+                    <button
+                        onClick={handleExportCsv}
+                        disabled={data.length === 0}
+                        className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                        title="Export CSV"
+                    >
+                        <FileSpreadsheet size={14} />
+                    </button>
+                    <button
+                        onClick={handleExportJson}
+                        disabled={data.length === 0}
+                        className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                        title="Export JSON"
+                    >
+                        <FileJson size={14} />
+                    </button>
+                </div>
                 
                 <button 
                     onClick={() => setAutoScroll(!autoScroll)}
@@ -173,12 +324,17 @@ export const BpmLog: React.FC<BpmLogProps> = ({
                         <tr>
                             <th className="pb-2 pl-4 pt-2">Time</th>
                             <th className="pb-2 pt-2">BPM</th>
+                            <th className="pb-2 pt-2">Conf</th>
+                            <th className="pb-2 pt-2">Key</th>
+                            <th className="pb-2 pt-2">Alternatives</th>
                             <th className="pb-2 pt-2 w-full">Visual</th>
                         </tr>
                     </thead>
                     <tbody>
                         {data.map((point, i) => {
                             const isActive = i === activeIndex;
+                            const isLowConfidence = point.carried || point.confidence < LOW_BPM_CONFIDENCE;
+                            const keyPoint = keysByTime.get(point.time);
                             
                             return (
                                 <tr 
@@ -187,11 +343,69 @@ export const BpmLog: React.FC<BpmLogProps> = ({
                                     onClick={() => onRowClick(point.time)}
                                     className={clsx(
                                         "border-b border-slate-800/50 transition-colors duration-200 text-sm cursor-pointer group",
-                                        isActive ? "bg-fuchsia-900/20 text-fuchsia-300" : "text-slate-400 hover:bg-slate-900/50 hover:text-slate-200"
+                                        isActive ? "bg-fuchsia-900/20 text-fuchsia-300" : "text-slate-400 hover:bg-slate-900/50 hover:text-slate-200",
+                                        isLowConfidence && !isActive && "bg-amber-950/20 text-amber-200/70",
+                                        keyPoint?.modulation && "border-l-2 border-l-cyan-400"
                                     )}
                                 >
                                     <td className="py-2 pl-4 font-mono w-24 group-hover:font-bold">{formatTime(point.time)}</td>
-                                    <td className="py-2 font-bold w-16">{point.bpm.toFixed(1)}</td>
+                                    <td className="py-2 font-bold w-20">
+                                        <span className="flex items-center gap-1">
+                                            {point.bpm.toFixed(1)}
+                                            {isLowConfidence && (
+                                                <span title={point.carried ? "No tempo detected, previous window carried forward" : "Low confidence"}>
+                                                    <AlertTriangle size={11} className="text-amber-400" />
+                                                </span>
+                                            )}
+                                        </span>
+                                    </td>
+                                    <td className={clsx("py-2 font-mono text-xs w-14", isLowConfidence ? "text-amber-400" : "text-slate-500")}>
+                                        {point.carried ? <span className="italic">carried</span> : `${Math.round(point.confidence * 100)}%`}
+                                    </td>
+                                    <td className="py-2 pr-3 w-24 whitespace-nowrap">
+                                        {keyPoint && (
+                                            <span
+                                                className={clsx(
+                                                    "inline-flex items-center gap-1.5 font-mono text-xs",
+                                                    keyPoint.modulation
+                                                        ? "px-1.5 py-0.5 rounded bg-cyan-900/40 border border-cyan-500/50 text-cyan-200"
+                                                        : "text-slate-400",
+                                                    keyPoint.key.confidence < LOW_KEY_CONFIDENCE && "opacity-50"
+                                                )}
+                                                title={`${keyPoint.key.name}, ${Math.round(keyPoint.key.confidence * 100)}% confidence${keyPoint.modulation ? ' (key change)' : ''}`}
+                                            >
+                                                {keyPoint.modulation && <Shuffle size={10} />}
+                                                <span className="font-bold">{keyPoint.key.camelot}</span>
+                                                <span>{shortKeyName(keyPoint.key)}</span>
+                                            </span>
+                                        )}
+                                    </td>
+                                    <td className="py-2 pr-3 whitespace-nowrap">
+                                        {/* Pick an alternative tempo for this window */}
+                                        <div className="flex items-center gap-1">
+                                            {point.candidates.map(candidate => {
+                                                const isSelected = Math.abs(candidate.bpm / point.bpm - 1) < SAME_TEMPO;
+                                                return (
+                                                    <button
+                                                        key={candidate.bpm}
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            onPickCandidate(point.time, candidate.bpm);
+                                                        }}
+                                                        className={clsx(
+                                                            "px-1.5 py-0.5 rounded font-mono text-[10px] border transition-colors",
+                                                            isSelected
+                                                                ? "bg-fuchsia-900/40 border-fuchsia-500/50 text-fuchsia-200"
+                                                                : "bg-slate-900 border-slate-800 text-slate-500 hover:text-slate-200 hover:border-slate-600"
+                                                        )}
+                                                        title={`Use ${candidate.bpm.toFixed(1)} BPM for this window (score ${Math.round(candidate.score * 100)}%)`}
+                                                    >
+                                                        {candidate.bpm.toFixed(0)}
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                    </td>
                                     <td className="py-2 opacity-50 group-hover:opacity-80">
                                         <div className="h-1.5 rounded-full bg-slate-700 overflow-hidden w-full max-w-xs">
                                             <div 
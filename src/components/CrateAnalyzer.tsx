@@ -0,0 +1,306 @@
+import React, { useMemo, useState } from 'react';
+import { FolderOpen, Upload, Loader2, X, FileJson, FileSpreadsheet, AlertTriangle, ArrowUp, ArrowDown, Trash2 } from 'lucide-react';
+import clsx from 'clsx';
+import { CrateTrack } from '../types';
+import { LOW_BPM_CONFIDENCE } from '../utils/bpm';
+import { LOW_KEY_CONFIDENCE, shortKeyName } from '../utils/key';
+import { collectDroppedFiles, isAudioFile } from '../utils/crateAnalysis';
+import { downloadCsv, downloadJson } from '../utils/export';
+
+interface CrateAnalyzerProps {
+  tracks: CrateTrack[];
+  onAddFiles: (files: { file: File; path: string }[]) => void;
+  onRemove: (id: string) => void;
+  onCancel: () => void;
+  onClear: () => void;
+}
+
+type SortKey = 'path' | 'bpm' | 'bpmConfidence' | 'key' | 'loudness' | 'peak' | 'duration' | 'status';
+
+const COLUMNS: { key: SortKey; label: string; align: 'left' | 'right' }[] = [
+  { key: 'path', label: 'Track', align: 'left' },
+  { key: 'bpm', label: 'BPM', align: 'right' },
+  { key: 'bpmConfidence', label: 'Conf', align: 'right' },
+  { key: 'key', label: 'Key', align: 'left' },
+  { key: 'loudness', label: 'LUFS', align: 'right' },
+  { key: 'peak', label: 'Peak', align: 'right' },
+  { key: 'duration', label: 'Length', align: 'right' },
+  { key: 'status', label: 'Status', align: 'left' },
+];
+
+const STATUS_ORDER: Record<CrateTrack['status'], number> = { analyzing: 0, queued: 1, error: 2, done: 3 };
+
+// Camelot wheel order (1A, 1B, 2A...) so compatible keys sit together
+const camelotRank = (camelot: string) => parseInt(camelot, 10) * 2 + (camelot.endsWith('B') ? 1 : 0);
+
+const sortValue = (track: CrateTrack, key: SortKey): number | string | undefined => {
+  switch (key) {
+    case 'path': return track.path.toLowerCase();
+    case 'key': return track.key ? camelotRank(track.key.camelot) : undefined;
+    case 'status': return STATUS_ORDER[track.status];
+    case 'peak': return track.peak !== undefined && isFinite(track.peak) ? track.peak : undefined;
+    default: return track[key];
+  }
+};
+
+const formatDuration = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+const formatDb = (db: number | undefined) => db === undefined ? '' : isFinite(db) ? db.toFixed(1) : '-inf';
+
+/**
+ * Batch analysis of a whole crate: drop a folder (or files) and get tempo,
+ * key, integrated loudness and true peak for every track in a sortable table.
+ */
+export const CrateAnalyzer: React.FC<CrateAnalyzerProps> = ({ tracks, onAddFiles, onRemove, onCancel, onClear }) => {
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: 'path', ascending: true });
+
+  const sortedTracks = useMemo(() => {
+    const direction = sort.ascending ? 1 : -1;
+    return [...tracks].sort((a, b) => {
+      const va = sortValue(a, sort.key);
+      const vb = sortValue(b, sort.key);
+      // Missing values always sink to the bottom
+      if (va === undefined || vb === undefined) return va === vb ? 0 : va === undefined ? 1 : -1;
+      if (typeof va === 'string' && typeof vb === 'string') return va.localeCompare(vb) * direction;
+      return ((va as number) - (vb as number)) * direction;
+    });
+  }, [tracks, sort]);
+
+  const finishedCount = tracks.filter(t => t.status === 'done' || t.status === 'error').length;
+  const isRunning = finishedCount < tracks.length;
+  const hasResults = tracks.some(t => t.status === 'done');
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    try {
+      const files = await collectDroppedFiles(e.dataTransfer);
+      if (files.length > 0) onAddFiles(files);
+    } catch (err) {
+      console.error("Failed to read dropped files", err);
+    }
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files ?? [])
+      .filter(isAudioFile)
+      .map(file => ({ file, path: file.webkitRelativePath || file.name }))
+      .sort((a, b) => a.path.localeCompare(b.path));
+    if (files.length > 0) onAddFiles(files);
+    e.target.value = '';
+  };
+
+  const handleSort = (key: SortKey) => {
+    setSort(prev => prev.key === key ? { key, ascending: !prev.ascending } : { key, ascending: true });
+  };
+
+  const handleExportCsv = () => {
+    downloadCsv(
+      'crate_analysis.csv',
+      ['path', 'bpm', 'bpm_confidence', 'key', 'camelot', 'key_confidence', 'integrated_lufs', 'true_peak_dbtp', 'duration', 'status', 'error'],
+      sortedTracks.map(t => [
+        t.path,
+        t.bpm?.toFixed(2),
+        t.bpmConfidence?.toFixed(2),
+        t.key?.name,
+        t.key?.camelot,
+        t.key?.confidence.toFixed(2),
+        t.loudness?.toFixed(1),
+        t.peak !== undefined && isFinite(t.peak) ? t.peak.toFixed(1) : undefined,
+        t.duration?.toFixed(3),
+        t.status,
+        t.error,
+      ])
+    );
+  };
+
+  const handleExportJson = () => {
+    downloadJson('crate_analysis.json', {
+      exportedAt: new Date().toISOString(),
+      tracks: sortedTracks.map(t => ({
+        path: t.path,
+        status: t.status,
+        duration: t.duration ?? null,
+        bpm: t.bpm ?? null,
+        bpmConfidence: t.bpmConfidence ?? null,
+        key: t.key ?? null,
+        integratedLufs: t.loudness ?? null,
+        truePeakDbtp: t.peak !== undefined && isFinite(t.peak) ? t.peak : null,
+        error: t.error ?? null,
+      })),
+    });
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-slate-950 p-6 overflow-hidden">
+
+      {/* Header */}
+      <div className="max-w-6xl mx-auto w-full mb-6 text-center space-y-2 shrink-0">
+        <h2 className="text-3xl font-bold text-white tracking-tight">Crate Analyzer</h2>
+        <p className="text-slate-400 max-w-lg mx-auto text-sm">
+          Drop a folder to measure tempo, key, loudness and peak for every track. Everything runs locally.
+        </p>
+      </div>
+
+      {/* Dropzone */}
+      <div
+        className={clsx(
+          "w-full max-w-6xl mx-auto mb-4 border-2 border-dashed rounded-2xl transition-colors duration-300 flex items-center justify-center gap-6 h-28 shrink-0",
+          isDragOver ? "border-cyan-500 bg-cyan-950/20" : "border-slate-800 bg-slate-900/30 hover:border-slate-600"
+        )}
+        onDragOver={(e) => { e.preventDefault(); setIsDragOver(true); }}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={handleDrop}
+      >
+        <FolderOpen className="w-8 h-8 text-slate-500" />
+        <div className="flex flex-col gap-2">
+          <span className="text-sm font-medium text-slate-400">Drag a folder or audio files here</span>
+          <div className="flex gap-2">
+            <label className="px-3 py-1.5 rounded-md text-xs font-medium bg-slate-800 hover:bg-slate-700 text-slate-300 cursor-pointer transition-colors flex items-center gap-1.5">
+              <FolderOpen size={12} />
+              Choose Folder
+              {/* webkitdirectory isn't in React's attribute list */}
+              <input type="file" className="hidden" multiple ref={(el) => el?.setAttribute('webkitdirectory', '')} onChange={handleFileSelect} />
+            </label>
+            <label className="px-3 py-1.5 rounded-md text-xs font-medium bg-slate-800 hover:bg-slate-700 text-slate-300 cursor-pointer transition-colors flex items-center gap-1.5">
+              <Upload size={12} />
+              Choose Files
+              <input type="file" className="hidden" multiple accept="audio/*" onChange={handleFileSelect} />
+            </label>
+          </div>
+        </div>
+      </div>
+
+      {/* Toolbar */}
+      {tracks.length > 0 && (
+        <div className="w-full max-w-6xl mx-auto mb-2 flex items-center gap-3 shrink-0">
+          <span className="text-xs text-slate-400 font-mono whitespace-nowrap">
+            {finishedCount} / {tracks.length} analyzed
+          </span>
+          <div className="flex-1 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-cyan-500 transition-all duration-300"
+              style={{ width: `${(finishedCount / tracks.length) * 100}%` }}
+            />
+          </div>
+          {isRunning && (
+            <button
+              onClick={onCancel}
+              className="p-1.5 text-slate-500 hover:text-slate-200 hover:bg-slate-800 rounded transition-colors"
+              title="Cancel Queued Files"
+            >
+              <X size={14} />
+            </button>
+          )}
+          <button
+            onClick={handleExportCsv}
+            disabled={!hasResults}
+            className="p-1.5 text-slate-500 hover:text-slate-200 hover:bg-slate-800 rounded transition-colors disabled:opacity-30 disabled:pointer-events-none"
+            title="Export CSV"
+          >
+            <FileSpreadsheet size={14} />
+          </button>
+          <button
+            onClick={handleExportJson}
+            disabled={!hasResults}
+            className="p-1.5 text-slate-500 hover:text-slate-200 hover:bg-slate-800 rounded transition-colors disabled:opacity-30 disabled:pointer-events-none"
+            title="Export JSON"
+          >
+            <FileJson size={14} />
+          </button>
+          <button
+            onClick={onClear}
+            className="p-1.5 text-slate-500 hover:text-rose-300 hover:bg-slate-800 rounded transition-colors"
+            title="Clear Crate"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      )}
+
+      {/* Table */}
+      {tracks.length > 0 && (
+        <div className="w-full max-w-6xl mx-auto flex-1 overflow-y-auto custom-scrollbar border border-slate-800 rounded-lg">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-slate-900 text-[10px] uppercase tracking-wider text-slate-500">
+              <tr>
+                {COLUMNS.map(column => (
+                  <th
+                    key={column.key}
+                    onClick={() => handleSort(column.key)}
+                    className={clsx(
+                      "px-3 py-2 font-bold cursor-pointer select-none hover:text-slate-300 whitespace-nowrap",
+                      column.align === 'right' ? "text-right" : "text-left",
+                      sort.key === column.key && "text-slate-200"
+                    )}
+                  >
+                    {column.label}
+                    {sort.key === column.key && (
+                      sort.ascending ? <ArrowUp size={10} className="inline ml-1" /> : <ArrowDown size={10} className="inline ml-1" />
+                    )}
+                  </th>
+                ))}
+                <th className="w-8" />
+              </tr>
+            </thead>
+            <tbody>
+              {sortedTracks.map(track => {
+                const isTempoUncertain = track.bpmConfidence !== undefined && track.bpmConfidence < LOW_BPM_CONFIDENCE;
+                const isKeyUncertain = track.key !== undefined && track.key.confidence < LOW_KEY_CONFIDENCE;
+                return (
+                  <tr key={track.id} className="border-t border-slate-800/60 hover:bg-slate-900/60 group">
+                    <td className="px-3 py-1.5 text-slate-300 max-w-xs truncate" title={track.path}>{track.path}</td>
+                    <td className={clsx("px-3 py-1.5 text-right font-mono", isTempoUncertain ? "text-amber-300" : "text-slate-200")}>
+                      {track.bpm?.toFixed(1)}
+                      {isTempoUncertain && <AlertTriangle size={10} className="inline ml-1" />}
+                    </td>
+                    <td className="px-3 py-1.5 text-right font-mono text-slate-500">
+                      {track.bpmConfidence !== undefined && `${Math.round(track.bpmConfidence * 100)}%`}
+                    </td>
+                    <td className={clsx("px-3 py-1.5 whitespace-nowrap", isKeyUncertain && "opacity-60")}>
+                      {track.key && (
+                        <>
+                          <span className="font-mono font-bold text-cyan-400">{track.key.camelot}</span>
+                          <span className="ml-1.5 text-slate-300">{shortKeyName(track.key)}{isKeyUncertain && '?'}</span>
+                        </>
+                      )}
+                    </td>
+                    <td className="px-3 py-1.5 text-right font-mono text-slate-300">{track.loudness?.toFixed(1)}</td>
+                    <td className={clsx("px-3 py-1.5 text-right font-mono", track.peak !== undefined && track.peak > 0 ? "text-rose-300" : "text-slate-300")}>
+                      {formatDb(track.peak)}
+                    </td>
+                    <td className="px-3 py-1.5 text-right font-mono text-slate-400">
+                      {track.duration !== undefined && formatDuration(track.duration)}
+                    </td>
+                    <td className="px-3 py-1.5 whitespace-nowrap">
+                      {track.status === 'analyzing' && <span className="text-cyan-400 flex items-center gap-1"><Loader2 size={10} className="animate-spin" />Analyzing</span>}
+                      {track.status === 'queued' && <span className="text-slate-600">Queued</span>}
+                      {track.status === 'done' && <span className="text-emerald-400">Done</span>}
+                      {track.status === 'error' && <span className="text-rose-400" title={track.error}>{track.error === 'Cancelled' ? 'Cancelled' : 'Failed'}</span>}
+                    </td>
+                    <td className="px-1 py-1.5">
+                      {(track.status === 'done' || track.status === 'error') && (
+                        <button
+                          onClick={() => onRemove(track.id)}
+                          className="p-1 text-slate-600 hover:text-slate-300 opacity-0 group-hover:opacity-100 transition-opacity"
+                          title="Remove"
+                        >
+                          <X size={12} />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
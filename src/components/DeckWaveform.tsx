@@ -0,0 +1,91 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { TimelineView, WaveSurferInstance } from '../types';
+import { COLOR_WAVE_PROGRESS } from '../constants';
+import { getPeakPyramid, drawWaveform } from '../utils/waveformPeaks';
+import { getDeckTime } from '../utils/audioAnalysis';
+
+interface DeckWaveformProps {
+  buffer: AudioBuffer | null;
+  ws: WaveSurferInstance | null; // Cursor source
+  view: TimelineView; // In this deck's own time
+  color: string;
+  className?: string;
+}
+
+export const DeckWaveform: React.FC<DeckWaveformProps> = ({ buffer, ws, view, color, className }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const waveRef = useRef<HTMLCanvasElement>(null);
+  const progressCanvasRef = useRef<HTMLCanvasElement>(null);
+  const progressRef = useRef<HTMLDivElement>(null);
+  const cursorRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  const pyramid = useMemo(() => buffer ? getPeakPyramid(buffer) : null, [buffer]);
+
+  // Track container size
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const observer = new ResizeObserver((entries) => {
+      for (const entry of entries) {
+        setSize({
+          width: Math.floor(entry.contentRect.width),
+          height: Math.floor(entry.contentRect.height),
+        });
+      }
+    });
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  // Draw the visible window twice: faded, and in full colour for the played part
+  useEffect(() => {
+    if (!pyramid || size.width === 0 || size.height === 0) return;
+    const dpr = window.devicePixelRatio || 1;
+    const scale = pyramid.max > 0 ? 1 / pyramid.max : 1; // Normalized like the old WaveSurfer view
+
+    ([[waveRef.current, `${color}40`], [progressCanvasRef.current, color]] as const).forEach(([canvas, style]) => {
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+      canvas.width = size.width * dpr;
+      canvas.height = size.height * dpr;
+      canvas.style.width = `${size.width}px`;
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, size.width, size.height);
+      ctx.fillStyle = style;
+      ctx.strokeStyle = style;
+      drawWaveform(ctx, pyramid, view.start, view.end, size.width, size.height, scale);
+    });
+  }, [pyramid, view.start, view.end, size, color]);
+
+  // Follow the playhead without re-rendering React on every tick
+  useEffect(() => {
+    if (!ws) return;
+
+    const update = (time: number) => {
+      const x = ((time - view.start) / (view.end - view.start)) * size.width;
+      if (progressRef.current) progressRef.current.style.width = `${Math.max(0, Math.min(size.width, x))}px`;
+      if (cursorRef.current) {
+        cursorRef.current.style.left = `${x}px`;
+        cursorRef.current.style.display = x < 0 || x > size.width ? 'none' : 'block';
+      }
+    };
+    update(getDeckTime(ws));
+
+    ws.on('timeupdate', update);
+    return () => ws.un('timeupdate', update);
+  }, [ws, buffer, view.start, view.end, size.width]);
+
+  return (
+    <div ref={containerRef} className={className}>
+      <canvas ref={waveRef} className="absolute inset-0 w-full h-full" />
+      <div ref={progressRef} className="absolute inset-y-0 left-0 overflow-hidden" style={{ width: 0 }}>
+        <canvas ref={progressCanvasRef} className="absolute top-0 left-0 h-full" />
+      </div>
+      <div
+        ref={cursorRef}
+        className="absolute top-0 bottom-0 w-px pointer-events-none"
+        style={{ left: 0, backgroundColor: COLOR_WAVE_PROGRESS }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,214 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileJson, X, SlidersHorizontal, Headphones } from 'lucide-react';
+import clsx from 'clsx';
+import { EqMatchResult } from '../types';
+import { downloadJson } from '../utils/export';
+import { COLOR_TRACK_A } from '../constants';
+
+interface EqMatchPanelProps {
+  result: EqMatchResult | null;
+  isAuditioning: boolean;
+  onToggleAudition: () => void;
+  exportName: string;
+  onClose: () => void;
+}
+
+const MIN_FREQ = 20;
+const MAX_FREQ = 20000;
+const RANGE_DB = 12; // Curve view spans +/- this range
+const FREQ_GRID = [50, 100, 200, 500, 1000, 2000, 5000, 10000];
+const COLOR_TARGET = '#fbbf24'; // tailwind amber-400
+
+const TYPE_LABELS: Record<string, string> = {
+  peaking: 'Bell',
+  lowshelf: 'Low Shelf',
+  highshelf: 'High Shelf',
+};
+
+const formatFreq = (f: number) => f >= 1000 ? `${(f / 1000).toFixed(f >= 10000 ? 1 : 2)}k` : `${Math.round(f)}`;
+
+export const EqMatchPanel: React.FC<EqMatchPanelProps> = ({
+  result,
+  isAuditioning,
+  onToggleAudition,
+  exportName,
+  onClose
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // Track container size
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const observer = new ResizeObserver((entries) => {
+      for (const entry of entries) {
+        setSize({
+          width: Math.floor(entry.contentRect.width),
+          height: Math.floor(entry.contentRect.height),
+        });
+      }
+    });
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, [result]);
+
+  // Draw target vs fitted curve
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !result || size.width === 0 || size.height === 0) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = size.width * dpr;
+    canvas.height = size.height * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    const { width, height } = size;
+    const logMin = Math.log10(MIN_FREQ);
+    const logMax = Math.log10(MAX_FREQ);
+    const freqToX = (f: number) => ((Math.log10(f) - logMin) / (logMax - logMin)) * width;
+    const dbToY = (db: number) => height / 2 - (Math.max(-RANGE_DB, Math.min(RANGE_DB, db)) / RANGE_DB) * (height / 2 - 4);
+
+    ctx.clearRect(0, 0, width, height);
+
+    // 1. Grid
+    ctx.strokeStyle = '#1e293b';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (const f of FREQ_GRID) {
+      const x = Math.round(freqToX(f)) + 0.5;
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, height);
+    }
+    for (let db = -RANGE_DB; db <= RANGE_DB; db += 6) {
+      const y = Math.round(dbToY(db)) + 0.5;
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y);
+    }
+    ctx.stroke();
+
+    ctx.fillStyle = '#64748b';
+    ctx.font = '9px monospace';
+    ctx.fillText(`+${RANGE_DB}`, 2, 10);
+    ctx.fillText(`-${RANGE_DB}`, 2, height - 3);
+
+    // 2. Curves
+    const drawCurve = (values: number[], color: string, lineWidth: number) => {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = lineWidth;
+      ctx.beginPath();
+      result.frequencies.forEach((f, i) => {
+        const x = freqToX(f);
+        const y = dbToY(values[i]);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      });
+      ctx.stroke();
+    };
+    drawCurve(result.target, `${COLOR_TARGET}aa`, 1);
+    drawCurve(result.fitted, COLOR_TRACK_A, 2);
+
+    // 3. Band centres
+    ctx.fillStyle = COLOR_TRACK_A;
+    for (const band of result.bands) {
+      ctx.beginPath();
+      ctx.arc(freqToX(band.frequency), dbToY(band.gain), 3, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }, [result, size]);
+
+  const handleExportJson = () => {
+    if (!result) return;
+    downloadJson(`${exportName}-match-eq.json`, { bands: result.bands });
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-slate-950">
+      {/* Header */}
+      <div className="px-4 py-3 bg-slate-900 border-b border-slate-800 flex justify-between items-center shrink-0">
+        <h3 className="text-sm font-bold text-slate-300 uppercase tracking-wider flex items-center gap-2">
+          <SlidersHorizontal size={16} className="text-amber-400" />
+          Match EQ
+        </h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onToggleAudition}
+            disabled={!result}
+            className={clsx(
+              "px-1.5 py-0.5 rounded text-[10px] font-bold border transition-colors flex items-center gap-1 disabled:opacity-30 disabled:pointer-events-none",
+              isAuditioning ? "text-cyan-300 border-cyan-500/40 bg-cyan-900/30" : "text-slate-500 border-slate-700 hover:text-slate-300"
+            )}
+            title="Apply the suggested EQ to Track A"
+          >
+            <Headphones size={12} />
+            ON A
+          </button>
+          <button
+            onClick={handleExportJson}
+            disabled={!result}
+            className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+            title="Export JSON"
+          >
+            <FileJson size={14} />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded text-slate-500 hover:text-white hover:bg-slate-800 transition-colors"
+            title="Close"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      {!result ? (
+        <div className="flex-1 flex items-center justify-center text-xs text-slate-500 p-6 text-center">
+          Load Track A and Track B to suggest a matching EQ.
+        </div>
+      ) : (
+        <>
+          {/* Curve */}
+          <div className="px-4 pt-3 pb-1 flex items-center gap-3 text-[10px] font-bold uppercase tracking-wider shrink-0">
+            <span className="text-amber-400">B − A</span>
+            <span className="text-cyan-400">Suggested EQ</span>
+          </div>
+          <div ref={containerRef} className="h-40 relative mx-2 mb-2 shrink-0">
+            <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+          </div>
+
+          {/* Bands */}
+          <div className="flex-1 overflow-y-auto p-2 border-t border-slate-800">
+            {result.bands.length === 0 ? (
+              <p className="text-xs text-slate-500 text-center py-6">Tracks are already tonally matched.</p>
+            ) : (
+              <table className="w-full text-left border-collapse">
+                <thead className="text-[10px] text-slate-500 uppercase">
+                  <tr>
+                    <th className="pb-2 pl-2">Type</th>
+                    <th className="pb-2">Freq</th>
+                    <th className="pb-2">Gain</th>
+                    <th className="pb-2">Q</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.bands.map((band, i) => (
+                    <tr key={i} className="border-b border-slate-800/50 text-xs font-mono text-slate-400">
+                      <td className="py-1.5 pl-2">{TYPE_LABELS[band.type]}</td>
+                      <td className="py-1.5">{formatFreq(band.frequency)} Hz</td>
+                      <td className={clsx("py-1.5", band.gain > 0 ? "text-emerald-400" : "text-rose-400")}>
+                        {band.gain > 0 ? '+' : ''}{band.gain.toFixed(1)} dB
+                      </td>
+                      <td className="py-1.5">{band.type === 'peaking' ? band.q.toFixed(2) : '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
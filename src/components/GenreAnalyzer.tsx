@@ -2,6 +2,8 @@ import React, { useState, useCallback } from 'react';
 import { Upload, Sparkles, Loader2, Music2, AlertCircle, X, Key, Copy, Check, ArrowRight } from 'lucide-react';
 import { AnalyzedTrack, AiAnalysisResult } from '../types';
 import { decodeAudioData } from '../utils/audioAnalysis';
+import { detectKey } from '../utils/key';
+import { KeyBadge } from './KeyBadge';
 import { analyzeTrackWithGemini } from '../services/geminiService';
 import clsx from 'clsx';
 
@@ -76,12 +78,13 @@ export const GenreAnalyzer: React.FC<GenreAnalyzerProps> = ({ tracks, setTracks,
   const [tempKey, setTempKey] = useState('');
 
   const processTrackLocally = async (trackId: string, file: File) => {
+    let buffer: AudioBuffer;
     try {
       setTracks(prev => prev.map(t => 
         t.id === trackId ? { ...t, status: 'decoding' } : t
       ));
 
-      const buffer = await decodeAudioData(file);
+      buffer = await decodeAudioData(file);
 
       setTracks(prev => prev.map(t => 
         t.id === trackId ? { 
@@ -97,6 +100,15 @@ export const GenreAnalyzer: React.FC<GenreAnalyzerProps> = ({ tracks, setTracks,
       setTracks(prev => prev.map(t => 
         t.id === trackId ? { ...t, status: 'error', error: 'Failed to decode audio' } : t
       ));
+      return;
+    }
+
+    // Key is estimated locally, no API key needed
+    try {
+      const key = await detectKey(buffer);
+      if (key) setTracks(prev => prev.map(t => t.id === trackId ? { ...t, key } : t));
+    } catch (err) {
+      console.error("Key detection error", err);
     }
   };
 
@@ -186,7 +198,7 @@ export const GenreAnalyzer: React.FC<GenreAnalyzerProps> = ({ tracks, setTracks,
              Genre & Vibe Analyzer
          </h2>
          <p className="text-slate-400 max-w-lg mx-auto">
-             Upload tracks to instantly decode them locally, then use <span className="text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-fuchsia-400 font-bold">Gemini AI</span> to detect Genre, Key, and Mood.
+             Upload tracks to decode them and detect their Key locally, then use <span className="text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-fuchsia-400 font-bold">Gemini AI</span> to detect Genre and Mood.
          </p>
          
          {/* Edit Key Button (Only when key is set) */}
@@ -203,16 +215,16 @@ export const GenreAnalyzer: React.FC<GenreAnalyzerProps> = ({ tracks, setTracks,
          )}
       </div>
 
-      {/* API Key Gating */}
-      {!apiKey ? (
-          <div className="max-w-md mx-auto w-full mb-20 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      {/* API Key (only the AI analysis needs it) */}
+      {!apiKey && (
+          <div className="max-w-md mx-auto w-full mb-10 animate-in fade-in slide-in-from-bottom-4 duration-500">
              <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-8 text-center shadow-xl">
                  <div className="w-12 h-12 bg-slate-800 rounded-full flex items-center justify-center mx-auto mb-4 text-cyan-400">
                      <Key size={24} />
                  </div>
                  <h3 className="text-xl font-bold text-white mb-2">Enter Gemini API Key</h3>
                  <p className="text-sm text-slate-400 mb-6">
-                     An API key is required to access the AI analysis features. Your key is stored locally in your browser.
+                     An API key is required for the AI analysis (genre, mood, description). Key detection works without one. Your key is stored locally in your browser.
                  </p>
                  
                  <form onSubmit={handleSubmitKey} className="flex flex-col gap-3">
@@ -234,125 +246,125 @@ export const GenreAnalyzer: React.FC<GenreAnalyzerProps> = ({ tracks, setTracks,
                  </form>
              </div>
           </div>
-      ) : (
-          <>
-            {/* Dropzone */}
-            <div 
-                className={clsx(
-                    "w-full max-w-4xl mx-auto mb-10 border-2 border-dashed rounded-2xl transition-colors duration-300 flex flex-col items-center justify-center h-48 shrink-0 group cursor-pointer animate-in fade-in zoom-in-95",
-                    isDragOver ? "border-cyan-500 bg-cyan-950/20" : "border-slate-800 bg-slate-900/30 hover:border-slate-600 hover:bg-slate-900/50"
-                )}
-                onDragOver={(e) => { e.preventDefault(); setIsDragOver(true); }}
-                onDragLeave={() => setIsDragOver(false)}
-                onDrop={handleDrop}
-            >
-                <label className="flex flex-col items-center justify-center w-full h-full cursor-pointer group/upload">
-                    <div className="p-4 rounded-full border-2 border-dashed border-slate-700 group-hover/upload:border-slate-500 transition-colors mb-4">
-                        <Upload className="w-8 h-8 text-slate-500 group-hover/upload:text-cyan-400 transition-colors" />
-                    </div>
-                    <span className="text-sm font-medium text-slate-400 group-hover/upload:text-slate-200 transition-colors">Drag audio here or click to upload</span>
-                    <p className="text-xs text-slate-600 mt-2">MP3, WAV, AAC</p>
-                    <input type="file" className="hidden" multiple accept="audio/*" onChange={handleFileSelect} />
-                </label>
-            </div>
+      )}
 
-            {/* Track List */}
-            <div className="w-full max-w-5xl mx-auto space-y-3 pb-20">
-                {tracks.map((track, index) => (
-                    <div 
-                        key={track.id} 
-                        className="group relative bg-slate-900 border border-slate-800 rounded-xl p-4 hover:border-slate-700 transition-all duration-200 shadow-sm"
-                        style={{ animationDelay: `${index * 50}ms` }}
-                    >
-                        <div className="flex items-center gap-6">
+      {/* Dropzone */}
+      <div 
+          className={clsx(
+              "w-full max-w-4xl mx-auto mb-10 border-2 border-dashed rounded-2xl transition-colors duration-300 flex flex-col items-center justify-center h-48 shrink-0 group cursor-pointer animate-in fade-in zoom-in-95",
+              isDragOver ? "border-cyan-500 bg-cyan-950/20" : "border-slate-800 bg-slate-900/30 hover:border-slate-600 hover:bg-slate-900/50"
+          )}
+          onDragOver={(e) => { e.preventDefault(); setIsDragOver(true); }}
+          onDragLeave={() => setIsDragOver(false)}
+          onDrop={handleDrop}
+      >
+          <label className="flex flex-col items-center justify-center w-full h-full cursor-pointer group/upload">
+              <div className="p-4 rounded-full border-2 border-dashed border-slate-700 group-hover/upload:border-slate-500 transition-colors mb-4">
+                  <Upload className="w-8 h-8 text-slate-500 group-hover/upload:text-cyan-400 transition-colors" />
+              </div>
+              <span className="text-sm font-medium text-slate-400 group-hover/upload:text-slate-200 transition-colors">Drag audio here or click to upload</span>
+              <p className="text-xs text-slate-600 mt-2">MP3, WAV, AAC</p>
+              <input type="file" className="hidden" multiple accept="audio/*" onChange={handleFileSelect} />
+          </label>
+      </div>
+
+      {/* Track List */}
+      <div className="w-full max-w-5xl mx-auto space-y-3 pb-20">
+          {tracks.map((track, index) => (
+              <div 
+                  key={track.id} 
+                  className="group relative bg-slate-900 border border-slate-800 rounded-xl p-4 hover:border-slate-700 transition-all duration-200 shadow-sm"
+                  style={{ animationDelay: `${index * 50}ms` }}
+              >
+                  <div className="flex items-center gap-6">
                             
-                            {/* Left: Info */}
-                            {/* When analysis is present, shrink the info section to give space to the result */}
-                            <div className={clsx(
-                                "flex items-center gap-4 min-w-0 transition-all duration-500", 
-                                track.aiAnalysis ? "w-1/3 xl:w-1/4" : "flex-1"
-                            )}>
-                                <div className={clsx(
-                                    "w-12 h-12 rounded-lg flex items-center justify-center shrink-0 transition-colors",
-                                    track.status === 'done' ? "bg-fuchsia-900/20 text-fuchsia-400" : "bg-slate-800 text-slate-500"
-                                )}>
-                                    {track.status === 'decoding' ? (
-                                        <Loader2 className="w-6 h-6 animate-spin" />
-                                    ) : (
-                                        <Music2 className="w-6 h-6" />
-                                    )}
-                                </div>
+                      {/* Left: Info */}
+                      {/* When analysis is present, shrink the info section to give space to the result */}
+                      <div className={clsx(
+                          "flex items-center gap-4 min-w-0 transition-all duration-500", 
+                          track.aiAnalysis ? "w-1/3 xl:w-1/4" : "flex-1"
+                      )}>
+                          <div className={clsx(
+                              "w-12 h-12 rounded-lg flex items-center justify-center shrink-0 transition-colors",
+                              track.status === 'done' ? "bg-fuchsia-900/20 text-fuchsia-400" : "bg-slate-800 text-slate-500"
+                          )}>
+                              {track.status === 'decoding' ? (
+                                  <Loader2 className="w-6 h-6 animate-spin" />
+                              ) : (
+                                  <Music2 className="w-6 h-6" />
+                              )}
+                          </div>
                                 
-                                <div className="min-w-0">
-                                    <h3 className="font-medium text-slate-200 truncate pr-4" title={track.file.name}>
-                                        {track.file.name}
-                                    </h3>
-                                    <div className="flex items-center gap-2 text-xs text-slate-500 mt-1">
-                                        <span>{(track.file.size / (1024 * 1024)).toFixed(2)} MB</span>
-                                        {track.duration && (
-                                            <>
-                                                <span>•</span>
-                                                <span>{formatDuration(track.duration)}</span>
-                                            </>
-                                        )}
-                                    </div>
-                                </div>
-                            </div>
+                          <div className="min-w-0">
+                              <h3 className="font-medium text-slate-200 truncate pr-4" title={track.file.name}>
+                                  {track.file.name}
+                              </h3>
+                              <div className="flex items-center gap-2 text-xs text-slate-500 mt-1">
+                                  <span>{(track.file.size / (1024 * 1024)).toFixed(2)} MB</span>
+                                  {track.duration && (
+                                      <>
+                                          <span>•</span>
+                                          <span>{formatDuration(track.duration)}</span>
+                                      </>
+                                  )}
+                              </div>
+                              {track.key && <KeyBadge estimate={track.key} className="mt-2 w-fit" />}
+                          </div>
+                      </div>
 
-                            {/* Right: AI Action / Result */}
-                            <div className={clsx(
-                                "flex justify-end transition-all duration-500",
-                                track.aiAnalysis ? "flex-1" : "shrink-0"
-                            )}>
-                                {track.aiAnalysis ? (
-                                <AnalysisResultCard analysis={track.aiAnalysis} />
-                                ) : (
-                                    <button
-                                        onClick={() => handleAiAnalysis(track.id)}
-                                        disabled={track.status === 'decoding' || track.status === 'analyzing_ai' || !track.audioBuffer}
-                                        className={clsx(
-                                            "flex items-center gap-2 px-5 py-2.5 rounded-lg text-xs font-bold border transition-all shadow-lg",
-                                            track.status === 'analyzing_ai'
-                                                ? "bg-fuchsia-900/20 border-fuchsia-800 text-fuchsia-300 cursor-wait"
-                                                : "bg-slate-800 border-slate-700 text-slate-300 hover:text-white hover:border-slate-600 hover:bg-slate-700"
-                                        )}
-                                    >
-                                        {track.status === 'analyzing_ai' ? (
-                                            <>
-                                                <Loader2 className="w-3 h-3 animate-spin" />
-                                                Analyzing...
-                                            </>
-                                        ) : (
-                                            <>
-                                                <Sparkles className="w-4 h-4 text-fuchsia-400" />
-                                                Analyze Vibe
-                                            </>
-                                        )}
-                                    </button>
-                                )}
-                            </div>
+                      {/* Right: AI Action / Result */}
+                      <div className={clsx(
+                          "flex justify-end transition-all duration-500",
+                          track.aiAnalysis ? "flex-1" : "shrink-0"
+                      )}>
+                          {track.aiAnalysis ? (
+                          <AnalysisResultCard analysis={track.aiAnalysis} />
+                          ) : (
+                              <button
+                                  onClick={() => handleAiAnalysis(track.id)}
+                                  disabled={!apiKey || track.status === 'decoding' || track.status === 'analyzing_ai' || !track.audioBuffer}
+                                  title={apiKey ? undefined : "Enter a Gemini API key to analyze genre and mood"}
+                                  className={clsx(
+                                      "flex items-center gap-2 px-5 py-2.5 rounded-lg text-xs font-bold border transition-all shadow-lg",
+                                      track.status === 'analyzing_ai'
+                                          ? "bg-fuchsia-900/20 border-fuchsia-800 text-fuchsia-300 cursor-wait"
+                                          : "bg-slate-800 border-slate-700 text-slate-300 hover:text-white hover:border-slate-600 hover:bg-slate-700"
+                                  )}
+                              >
+                                  {track.status === 'analyzing_ai' ? (
+                                      <>
+                                          <Loader2 className="w-3 h-3 animate-spin" />
+                                          Analyzing...
+                                      </>
+                                  ) : (
+                                      <>
+                                          <Sparkles className="w-4 h-4 text-fuchsia-400" />
+                                          Analyze Vibe
+                                      </>
+                                  )}
+                              </button>
+                          )}
+                      </div>
 
-                            {/* Remove Button */}
-                            <button 
-                                onClick={() => removeTrack(track.id)}
-                                className="p-2 text-slate-600 hover:text-rose-400 hover:bg-rose-950/20 rounded-full transition-colors shrink-0"
-                                title="Remove track"
-                            >
-                                <X size={18} />
-                            </button>
-                        </div>
+                      {/* Remove Button */}
+                      <button 
+                          onClick={() => removeTrack(track.id)}
+                          className="p-2 text-slate-600 hover:text-rose-400 hover:bg-rose-950/20 rounded-full transition-colors shrink-0"
+                          title="Remove track"
+                      >
+                          <X size={18} />
+                      </button>
+                  </div>
                         
-                        {track.error && (
-                            <div className="mt-2 flex items-center gap-2 text-xs text-rose-400 bg-rose-950/20 p-2 rounded border border-rose-900/30">
-                                <AlertCircle className="w-3 h-3" />
-                                {track.error}
-                            </div>
-                        )}
-                    </div>
-                ))}
-            </div>
-          </>
-      )}
+                  {track.error && (
+                      <div className="mt-2 flex items-center gap-2 text-xs text-rose-400 bg-rose-950/20 p-2 rounded border border-rose-900/30">
+                          <AlertCircle className="w-3 h-3" />
+                          {track.error}
+                      </div>
+                  )}
+              </div>
+          ))}
+      </div>
     </div>
   );
 };
\ No newline at end of file
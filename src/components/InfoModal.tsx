@@ -1,6 +1,6 @@
 
 import React, { useEffect } from 'react';
-import { X, MousePointer2, Layers, BarChart3, CheckCircle2, AlertTriangle, Info, Activity, Ear, CircleSlash } from 'lucide-react';
+import { X, MousePointer2, Layers, BarChart3, CheckCircle2, AlertTriangle, Info, Activity, Ear, CircleSlash, Crosshair, AudioLines, SlidersHorizontal, Dices, FolderOpen } from 'lucide-react';
 
 interface InfoModalProps {
   isOpen: boolean;
@@ -56,21 +56,41 @@ export const InfoModal: React.FC<InfoModalProps> = ({ isOpen, onClose }) => {
                 <ul className="space-y-2">
                     <li className="flex items-start gap-2">
                         <span className="text-cyan-500 font-bold">•</span>
-                        <span>Drag & Drop audio files directly onto Track A or Track B to load them.</span>
+                        <span>Drag & Drop audio files directly onto a Comparator slot to load them, or use <strong>LOAD…</strong> to fill several slots at once.</span>
+                    </li>
+                    <li className="flex items-start gap-2">
+                        <span className="text-cyan-500 font-bold">•</span>
+                        <span>The <strong>A</strong>/<strong>B</strong> buttons on each slot pick the pair on the crossfader. Keys <strong>1-9</strong> switch the slot you are hearing, <strong>Shift + 1-9</strong> the other side.</span>
                     </li>
                     <li className="flex items-start gap-2">
                         <span className="text-cyan-500 font-bold">•</span>
                         <span>Click anywhere on the top <strong>Ruler</strong> to seek instantly.</span>
                     </li>
+                    <li className="flex items-start gap-2">
+                        <span className="text-cyan-500 font-bold">•</span>
+                        <span><strong>Scroll or pinch</strong> over the Ruler or a deck to zoom (down to single samples), <strong>Shift + scroll</strong> to pan. The strip above the Ruler shows the visible window; drag it to scroll, double click to zoom out.</span>
+                    </li>
+                    <li className="flex items-start gap-2">
+                        <span className="text-cyan-500 font-bold">•</span>
+                        <span><strong>Shift + drag</strong> on the Ruler to set a loop region (snaps to beats in the BPM Analyzer). Drag its edges to adjust, toggle it with the <strong>loop button</strong>.</span>
+                    </li>
                 </ul>
                  <ul className="space-y-2">
                     <li className="flex items-start gap-2">
                         <span className="text-cyan-500 font-bold">•</span>
-                        <span>Use the <strong>Crossfader</strong> at the bottom to mix between tracks.</span>
+                        <span>Use the <strong>Crossfader</strong> at the bottom to mix between tracks, or press <strong>S</strong> (or the A/B button) to switch instantly with a click-free ramp.</span>
+                    </li>
+                    <li className="flex items-start gap-2">
+                        <span className="text-cyan-500 font-bold">•</span>
+                        <span>Switch to <strong>BPM Analyzer</strong> tab for tempo detection logs. The tracked beat/bar grid is drawn over the deck and Ruler; <strong>[</strong> and <strong>]</strong> jump between bars.</span>
                     </li>
                     <li className="flex items-start gap-2">
                         <span className="text-cyan-500 font-bold">•</span>
-                        <span>Switch to <strong>BPM Analyzer</strong> tab for tempo detection logs.</span>
+                        <span>Hover a deck and click the <strong>rainbow icon</strong> to switch it to a Spectrogram view.</span>
+                    </li>
+                    <li className="flex items-start gap-2">
+                        <span className="text-cyan-500 font-bold">•</span>
+                        <span>Press <strong>M</strong> to drop a marker at the playhead. The <strong>bookmark icon</strong> lists markers and regions (saved per file), seeks on click and exports JSON, CSV or Audacity labels.</span>
                     </li>
                 </ul>
             </div>
@@ -92,7 +112,7 @@ export const InfoModal: React.FC<InfoModalProps> = ({ isOpen, onClose }) => {
                     </div>
                     <div className="flex-1 space-y-3">
                         <p className="text-sm text-slate-300 leading-relaxed">
-                           Measures the average loudness of the track over time. This is the industry standard.
+                           K-weighted loudness per ITU-R BS.1770: <strong>M</strong> = Momentary (400ms), <strong>S</strong> = Short-term (3s). This is the industry standard.
                         </p>
                         <div className="bg-slate-950 p-3 rounded border border-slate-800 text-xs space-y-2">
                              <p className="text-slate-400"><strong className="text-slate-200">Why?</strong> "Is my master hitting -14 LUFS for Spotify or -9 LUFS for CD?"</p>
@@ -112,13 +132,13 @@ export const InfoModal: React.FC<InfoModalProps> = ({ isOpen, onClose }) => {
                     </div>
                     <div className="flex-1 space-y-3">
                         <p className="text-sm text-slate-300 leading-relaxed">
-                           Detects inter-sample peaks that will clip when converted to analog (DAC).
+                           Detects inter-sample peaks (4x oversampled, dBTP) that will clip when converted to analog (DAC). The white marker holds the recent maximum.
                         </p>
                         <div className="bg-slate-950 p-3 rounded border border-slate-800 text-xs space-y-2">
                              <p className="text-slate-400"><strong className="text-slate-200">Why?</strong> Standard meters miss these. Helps prevent distortion on cheap speakers.</p>
                              <div className="flex items-center gap-2 text-rose-400/80 mt-2">
                                 <AlertTriangle size={12} />
-                                <span>Red box = Clip Detected</span>
+                                <span>Red box = Clip Detected (click meter to reset)</span>
                              </div>
                         </div>
                     </div>
@@ -135,7 +155,7 @@ export const InfoModal: React.FC<InfoModalProps> = ({ isOpen, onClose }) => {
                            A simple bar from -1 to +1 indicating phase relationship.
                         </p>
                         <div className="bg-slate-950 p-3 rounded border border-slate-800 text-xs space-y-2">
-                             <p className="text-slate-400"><strong className="text-slate-200">Why?</strong> Tells if track vanishes in mono (e.g. phone speakers).</p>
+                             <p className="text-slate-400"><strong className="text-slate-200">Why?</strong> Tells if track vanishes in mono (e.g. phone speakers). Toggle the <strong>Orbit icon</strong> for a vectorscope with balance readout.</p>
                              <div className="space-y-1 pt-2">
                                 <div className="flex justify-between text-[10px] text-slate-500 font-mono">
                                     <span>-1 (Bad)</span>
@@ -160,10 +180,10 @@ export const InfoModal: React.FC<InfoModalProps> = ({ isOpen, onClose }) => {
                   <div>
                     <h4 className="text-sm font-bold text-white mb-2 flex items-center gap-2">
                         <Layers size={16} className="text-slate-400" /> 
-                        Difference Overlay
+                        Difference (Residual)
                     </h4>
                     <p className="text-xs text-slate-400 leading-relaxed">
-                        The bottom view in Comparator mode shows the <strong>visual difference</strong> between tracks. 
+                        The bottom view in Comparator mode shows the <strong>actual A − B signal</strong>, loudness-matched and time-aligned, with its level in dB. 
                         If tracks are identical, this area will appear empty/flat. Spikes indicate mastering differences or mix changes.
                     </p>
                   </div>
@@ -178,6 +198,16 @@ export const InfoModal: React.FC<InfoModalProps> = ({ isOpen, onClose }) => {
                         Anything you do hear is the exact difference between the two files (e.g., reverb tails, compression artifacts).
                     </p>
                   </div>
+                  <div>
+                    <h4 className="text-sm font-bold text-white mb-2 flex items-center gap-2">
+                        <Crosshair size={16} className="text-amber-300" /> 
+                        Time Alignment
+                    </h4>
+                    <p className="text-xs text-slate-400 leading-relaxed">
+                        When both tracks are loaded, Track B is cross-correlated against Track A and offset to the exact sample. 
+                        Use the arrows next to the <strong>Crosshair icon</strong> to nudge by one sample (hold Shift for 1ms), or click the icon to re-detect.
+                    </p>
+                  </div>
               </div>
               
               <div className="space-y-4">
@@ -187,7 +217,7 @@ export const InfoModal: React.FC<InfoModalProps> = ({ isOpen, onClose }) => {
                           BPM Analyzer
                       </h4>
                       <p className="text-xs text-slate-400 leading-relaxed">
-                          In Analyzer mode, the <strong>BPM Log</strong> tracks tempo stability. Click the "Lock" icon to toggle auto-scrolling, which keeps the log synced to playback position.
+                          In Analyzer mode, the <strong>BPM Log</strong> tracks tempo stability. Click the "Lock" icon to toggle auto-scrolling, which keeps the log synced to playback position. Low-confidence windows are flagged in amber; click an alternative tempo (e.g. half/double time) to use it for that window, or <strong>Octave</strong> to keep the whole track around its average tempo. For ambient, classical or hi-hat driven material, switch the detection profile to <strong>Multi-band</strong>. The track's key is estimated locally and shown with its Camelot code; the log's Key column follows it window by window and highlights key changes.
                       </p>
                    </div>
                    <div>
@@ -196,7 +226,43 @@ export const InfoModal: React.FC<InfoModalProps> = ({ isOpen, onClose }) => {
                           Auto-Gain Match
                       </h4>
                       <p className="text-xs text-slate-400 leading-relaxed">
-                          Toggle the <strong>Ear icon</strong> near the crossfader to automatically normalize volume between tracks. This ensures you compare <strong>quality</strong>, not just loudness.
+                          Toggle the <strong>Ear icon</strong> near the crossfader to automatically match tracks by their integrated loudness (ITU-R BS.1770 LUFS, shown next to each deck). This ensures you compare <strong>quality</strong>, not just loudness.
+                      </p>
+                   </div>
+                   <div>
+                       <h4 className="text-sm font-bold text-white mb-2 flex items-center gap-2">
+                          <AudioLines size={16} className="text-cyan-400" /> 
+                          Spectrum Analyzer
+                      </h4>
+                      <p className="text-xs text-slate-400 leading-relaxed">
+                          Open it from the <strong>meter bridge</strong>. Track A and B are overlaid on a log frequency axis with optional octave smoothing and peak hold. The amber <strong>Δ</strong> curve is the EQ difference (A − B).
+                      </p>
+                   </div>
+                   <div>
+                       <h4 className="text-sm font-bold text-white mb-2 flex items-center gap-2">
+                          <SlidersHorizontal size={16} className="text-amber-400" /> 
+                          Match EQ
+                      </h4>
+                      <p className="text-xs text-slate-400 leading-relaxed">
+                          Suggests a few parametric bands that make A's average spectrum sound like B's. Press <strong>ON A</strong> to hear them applied to Track A, or export the bands as JSON.
+                      </p>
+                   </div>
+                   <div>
+                       <h4 className="text-sm font-bold text-white mb-2 flex items-center gap-2">
+                          <Dices size={16} className="text-emerald-400" /> 
+                          Blind ABX Test
+                      </h4>
+                      <p className="text-xs text-slate-400 leading-relaxed">
+                          X is randomly A or B on every trial, always loudness-matched. Track names, answers and the score stay hidden until you press <strong>Finish & Reveal</strong>; the result includes a binomial p-value (below 0.05 means you reliably heard a difference).
+                      </p>
+                   </div>
+                   <div>
+                       <h4 className="text-sm font-bold text-white mb-2 flex items-center gap-2">
+                          <FolderOpen size={16} className="text-cyan-400" /> 
+                          Crate Analyzer
+                      </h4>
+                      <p className="text-xs text-slate-400 leading-relaxed">
+                          Drop a whole folder on the <strong>Crate</strong> tab to get tempo, key, integrated loudness and true peak for every track. Files are analysed a few at a time in the background; sort any column and export the table as CSV or JSON.
                       </p>
                    </div>
               </div>
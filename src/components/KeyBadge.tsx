@@ -0,0 +1,29 @@
+import React from 'react';
+import clsx from 'clsx';
+import { KeyEstimate } from '../types';
+import { LOW_KEY_CONFIDENCE, shortKeyName } from '../utils/key';
+
+interface KeyBadgeProps {
+  estimate: KeyEstimate;
+  className?: string;
+}
+
+// Camelot code and key name; faded with a "?" when the estimate is uncertain
+export const KeyBadge: React.FC<KeyBadgeProps> = ({ estimate, className }) => {
+  const isUncertain = estimate.confidence < LOW_KEY_CONFIDENCE;
+
+  return (
+    <div
+      className={clsx(
+        "flex items-center gap-1.5 bg-slate-800/50 px-2.5 py-1 rounded border border-cyan-500/20 shadow-sm shrink-0",
+        isUncertain && "opacity-60",
+        className
+      )}
+      title={`${estimate.name} (${estimate.camelot}), ${Math.round(estimate.confidence * 100)}% confidence`}
+    >
+      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Key</span>
+      <span className="font-mono text-sm font-bold text-cyan-400">{estimate.camelot}</span>
+      <span className="text-xs text-slate-300">{shortKeyName(estimate)}{isUncertain && '?'}</span>
+    </div>
+  );
+};
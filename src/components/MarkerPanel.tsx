@@ -0,0 +1,168 @@
+import React from 'react';
+import { Bookmark, BookmarkPlus, FileJson, FileSpreadsheet, FileText, Upload, X, Trash2, RectangleHorizontal, AlertCircle } from 'lucide-react';
+import clsx from 'clsx';
+import { Marker } from '../types';
+import { MarkerFormat } from '../utils/markers';
+
+interface MarkerPanelProps {
+  markers: Marker[]; // Timeline times
+  trackName: string | null;
+  currentTime: number;
+  onSeek: (time: number) => void;
+  onAddMarker: () => void;
+  onAddRegion?: () => void; // From the loop region, if one is set
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  importError?: string | null; // Last failed import, shown until dismissed or the next import
+  onDismissError?: () => void;
+  onExport: (format: MarkerFormat) => void;
+  onClose: () => void;
+}
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  const ms = Math.floor((seconds % 1) * 100);
+  return `${m}:${s.toString().padStart(2, '0')}.${ms.toString().padStart(2, '0')}`;
+};
+
+export const MarkerPanel: React.FC<MarkerPanelProps> = ({
+  markers,
+  trackName,
+  currentTime,
+  onSeek,
+  onAddMarker,
+  onAddRegion,
+  onRename,
+  onDelete,
+  onImport,
+  importError,
+  onDismissError,
+  onExport,
+  onClose
+}) => {
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) onImport(e.target.files[0]);
+    e.target.value = '';
+  };
+
+  const hasMarkers = markers.length > 0;
+  const iconButton = "p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-30 disabled:pointer-events-none";
+
+  return (
+    <div className="flex flex-col h-full bg-slate-950">
+      {/* Header */}
+      <div className="px-4 py-3 bg-slate-900 border-b border-slate-800 flex justify-between items-center shrink-0">
+        <h3 className="text-sm font-bold text-slate-300 uppercase tracking-wider flex items-center gap-2">
+          <Bookmark size={16} className="text-sky-400" />
+          Markers
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded text-slate-500 hover:text-white hover:bg-slate-800 transition-colors"
+          title="Close"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      {!trackName ? (
+        <div className="flex-1 flex items-center justify-center text-xs text-slate-500 p-6 text-center">
+          Load a track to add markers.
+        </div>
+      ) : (
+        <>
+          {/* Toolbar */}
+          <div className="px-2 py-2 border-b border-slate-800 flex items-center gap-1 shrink-0">
+            <button onClick={onAddMarker} className={iconButton} title="Add Marker at Playhead (M)">
+              <BookmarkPlus size={14} />
+            </button>
+            <button
+              onClick={onAddRegion}
+              disabled={!onAddRegion}
+              className={iconButton}
+              title={onAddRegion ? "Add Region from Loop" : "Set a loop region to add it as a region"}
+            >
+              <RectangleHorizontal size={14} />
+            </button>
+            <div className="flex-1" />
+            <label className={clsx(iconButton, "cursor-pointer")} title="Import (JSON, CSV, Audacity labels)">
+              <Upload size={14} />
+              <input type="file" accept=".json,.csv,.txt" className="hidden" onChange={handleImport} />
+            </label>
+            <button onClick={() => onExport('json')} disabled={!hasMarkers} className={iconButton} title="Export JSON">
+              <FileJson size={14} />
+            </button>
+            <button onClick={() => onExport('csv')} disabled={!hasMarkers} className={iconButton} title="Export CSV">
+              <FileSpreadsheet size={14} />
+            </button>
+            <button onClick={() => onExport('audacity')} disabled={!hasMarkers} className={iconButton} title="Export Audacity Labels">
+              <FileText size={14} />
+            </button>
+          </div>
+
+          {importError && (
+            <div className="mx-2 mt-2 flex items-center gap-2 text-xs text-rose-400 bg-rose-950/20 p-2 rounded border border-rose-900/30 shrink-0">
+              <AlertCircle className="w-3 h-3 shrink-0" />
+              <span className="flex-1 min-w-0 truncate" title={importError}>{importError}</span>
+              {onDismissError && (
+                <button onClick={onDismissError} className="p-0.5 rounded text-rose-400/70 hover:text-rose-300" title="Dismiss">
+                  <X size={12} />
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* List */}
+          <div className="flex-1 overflow-y-auto p-2">
+            {!hasMarkers ? (
+              <p className="text-xs text-slate-500 text-center py-6">No markers for this track yet.</p>
+            ) : (
+              <ul className="space-y-0.5">
+                {markers.map(marker => {
+                  const isActive = marker.end !== null
+                    ? currentTime >= marker.start && currentTime < marker.end
+                    : Math.abs(currentTime - marker.start) < 0.25;
+                  return (
+                    <li
+                      key={marker.id}
+                      onClick={() => onSeek(marker.start)}
+                      className={clsx(
+                        "group flex items-center gap-2 px-2 py-1.5 rounded cursor-pointer transition-colors border-b border-slate-800/50",
+                        isActive ? "bg-sky-900/20" : "hover:bg-slate-900/50"
+                      )}
+                    >
+                      <div className="font-mono text-[10px] text-slate-400 w-20 shrink-0 leading-tight">
+                        <div className={isActive ? "text-sky-300" : undefined}>{formatTime(marker.start)}</div>
+                        {marker.end !== null && <div className="text-slate-600">{formatTime(marker.end)}</div>}
+                      </div>
+                      <input
+                        value={marker.name}
+                        onChange={(e) => onRename(marker.id, e.target.value)}
+                        onClick={(e) => e.stopPropagation()}
+                        placeholder={marker.end !== null ? "Region" : "Marker"}
+                        className="flex-1 min-w-0 bg-transparent text-xs text-slate-200 outline-none border-b border-transparent focus:border-sky-500/50 placeholder:text-slate-600"
+                      />
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onDelete(marker.id);
+                        }}
+                        className="p-1 rounded text-slate-600 hover:text-rose-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                        title="Delete"
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
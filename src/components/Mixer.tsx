@@ -1,8 +1,9 @@
 
 import React from 'react';
-import { Play, Pause, Square, SkipBack, SkipForward, Ear, CircleSlash } from 'lucide-react';
+import { Play, Pause, Square, SkipBack, SkipForward, Ear, CircleSlash, Crosshair, ChevronLeft, ChevronRight, ArrowLeftRight, Repeat } from 'lucide-react';
 import clsx from 'clsx';
 import { COLOR_TRACK_A, COLOR_TRACK_B } from '../constants';
+import { TrackAlignment } from '../types';
 
 interface MixerControlsProps {
   isPlaying: boolean;
@@ -19,8 +20,19 @@ interface MixerControlsProps {
   isDiffMode?: boolean;
   onToggleDiffMode?: () => void;
   showCrossfader?: boolean;
+  alignment?: TrackAlignment | null;
+  onAlign?: () => void;
+  onNudgeAlignment?: (deltaSamples: number) => void;
+  onToggleAB?: () => void;
+  switchRampMs?: number;
+  onSwitchRampChange?: (ms: number) => void;
+  isLooping?: boolean;
+  onToggleLoop?: () => void;
 }
 
+// Selectable A/B switch ramp lengths
+const SWITCH_RAMP_OPTIONS = [2, 5, 10, 20, 50, 200];
+
 const formatTime = (seconds: number) => {
   const m = Math.floor(seconds / 60);
   const s = Math.floor(seconds % 60);
@@ -42,8 +54,25 @@ export const MixerControls: React.FC<MixerControlsProps> = ({
   onToggleAutoGain,
   isDiffMode = false,
   onToggleDiffMode,
-  showCrossfader = true
+  showCrossfader = true,
+  alignment,
+  onAlign,
+  onNudgeAlignment,
+  onToggleAB,
+  switchRampMs = 10,
+  onSwitchRampChange,
+  isLooping = false,
+  onToggleLoop
 }) => {
+  // Shift-click nudges by 1ms instead of a single sample
+  const nudge = (direction: 1 | -1, e: React.MouseEvent) => {
+    if (!onNudgeAlignment) return;
+    const step = e.shiftKey && alignment ? Math.round(alignment.sampleRate / 1000) : 1;
+    onNudgeAlignment(direction * step);
+  };
+
+  const offsetMs = alignment ? (alignment.lagSamples / alignment.sampleRate) * 1000 : 0;
+
   return (
     <div className="flex items-center gap-8 w-full max-w-4xl justify-between">
       
@@ -86,6 +115,18 @@ export const MixerControls: React.FC<MixerControlsProps> = ({
         >
           <SkipForward size={24} />
         </button>
+
+        <button 
+          onClick={onToggleLoop}
+          disabled={!onToggleLoop}
+          className={clsx(
+            "p-2 rounded-full transition-colors active:scale-95 disabled:opacity-30 disabled:pointer-events-none",
+            isLooping ? "text-amber-400 bg-amber-900/20" : "text-slate-400 hover:text-white hover:bg-slate-800"
+          )}
+          title="Loop (Shift + drag on the ruler to set a region)"
+        >
+          <Repeat size={20} />
+        </button>
       </div>
 
       {/* Crossfader Section */}
@@ -130,6 +171,48 @@ export const MixerControls: React.FC<MixerControlsProps> = ({
                   </button>
               )}
 
+              {/* Time Alignment (B relative to A) */}
+              {onAlign && (
+                  <div className="flex items-center gap-0.5 shrink-0">
+                      <button
+                          onClick={onAlign}
+                          className="p-2 rounded-md text-slate-500 hover:text-amber-300 hover:bg-slate-800 border border-transparent transition-all active:scale-95"
+                          title="Auto-Align B to A (Cross-Correlation)"
+                      >
+                          <Crosshair size={16} />
+                      </button>
+                      {onNudgeAlignment && (
+                          <>
+                              <button
+                                  onClick={(e) => nudge(-1, e)}
+                                  className="p-1 rounded text-slate-500 hover:text-white hover:bg-slate-800 transition-colors"
+                                  title="Offset -1 sample (Shift: -1ms)"
+                              >
+                                  <ChevronLeft size={14} />
+                              </button>
+                              <div
+                                  className="flex flex-col items-center w-20 font-mono leading-tight"
+                                  title={alignment ? `Correlation: ${(alignment.confidence * 100).toFixed(0)}%` : "Not aligned"}
+                              >
+                                  <span className={clsx("text-xs", alignment ? "text-amber-300" : "text-slate-600")}>
+                                      {offsetMs >= 0 ? '+' : ''}{offsetMs.toFixed(2)}ms
+                                  </span>
+                                  <span className="text-[9px] text-slate-500">
+                                      {alignment ? `${alignment.lagSamples} smp` : '--'}
+                                  </span>
+                              </div>
+                              <button
+                                  onClick={(e) => nudge(1, e)}
+                                  className="p-1 rounded text-slate-500 hover:text-white hover:bg-slate-800 transition-colors"
+                                  title="Offset +1 sample (Shift: +1ms)"
+                              >
+                                  <ChevronRight size={14} />
+                              </button>
+                          </>
+                      )}
+                  </div>
+              )}
+
               <div className={clsx("relative flex-1 h-12 flex items-center group transition-opacity", isDiffMode && "opacity-20 pointer-events-none")}>
               {/* Rail */}
               <div className="absolute left-0 right-0 h-2 bg-slate-800 rounded-full overflow-hidden">
@@ -161,6 +244,34 @@ export const MixerControls: React.FC<MixerControlsProps> = ({
                   <div className="w-[2px] h-4 bg-slate-400 rounded-full" />
               </div>
               </div>
+
+              {/* Instant A/B Switch */}
+              {onToggleAB && (
+                  <div className={clsx("flex flex-col items-center gap-1 shrink-0", isDiffMode && "opacity-20 pointer-events-none")}>
+                      <button
+                          onClick={onToggleAB}
+                          className="px-2 py-1 rounded-md text-xs font-bold font-mono border border-slate-700 bg-slate-900 hover:bg-slate-800 transition-all active:scale-95 flex items-center gap-1"
+                          style={{ color: crossfade <= 0.5 ? COLOR_TRACK_A : COLOR_TRACK_B }}
+                          title="Switch A/B (S)"
+                      >
+                          <ArrowLeftRight size={12} />
+                          {crossfade <= 0.5 ? 'A' : 'B'}
+                      </button>
+                      {onSwitchRampChange && (
+                          <select
+                              value={switchRampMs}
+                              onChange={(e) => onSwitchRampChange(Number(e.target.value))}
+                              className="bg-slate-800 text-[9px] text-slate-400 rounded px-1 outline-none border border-slate-700"
+                              style={{ colorScheme: 'dark' }}
+                              title="Switch Ramp"
+                          >
+                              {SWITCH_RAMP_OPTIONS.map(ms => (
+                                  <option key={ms} value={ms}>{ms}ms</option>
+                              ))}
+                          </select>
+                      )}
+                  </div>
+              )}
           </div>
         </div>
       )}
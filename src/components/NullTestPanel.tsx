@@ -0,0 +1,169 @@
+import React from 'react';
+import { FileJson, FileSpreadsheet, X, CircleSlash } from 'lucide-react';
+import clsx from 'clsx';
+import { NullTestReport } from '../types';
+import { downloadJson, downloadCsv } from '../utils/export';
+
+interface NullTestPanelProps {
+  report: NullTestReport | null;
+  thresholdDb: number;
+  onThresholdChange: (db: number) => void;
+  onRangeClick: (time: number) => void;
+  currentTime: number;
+  exportName: string;
+  onClose: () => void;
+}
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  const ms = Math.floor((seconds % 1) * 100);
+  return `${m}:${s.toString().padStart(2, '0')}.${ms.toString().padStart(2, '0')}`;
+};
+
+const formatDb = (db: number) => db <= -100 ? '-inf' : db.toFixed(1);
+
+export const NullTestPanel: React.FC<NullTestPanelProps> = ({
+  report,
+  thresholdDb,
+  onThresholdChange,
+  onRangeClick,
+  currentTime,
+  exportName,
+  onClose
+}) => {
+
+  const handleExportJson = () => {
+    if (!report) return;
+    downloadJson(`${exportName}-null-test.json`, report);
+  };
+
+  const handleExportCsv = () => {
+    if (!report) return;
+    downloadCsv(
+      `${exportName}-null-test.csv`,
+      ['start_s', 'end_s', 'duration_s', 'rms_dbfs', 'peak_dbfs'],
+      report.ranges.map(r => [
+        r.start.toFixed(3),
+        r.end.toFixed(3),
+        (r.end - r.start).toFixed(3),
+        r.rmsDb.toFixed(2),
+        r.peakDb.toFixed(2),
+      ])
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-slate-950">
+      {/* Header */}
+      <div className="px-4 py-3 bg-slate-900 border-b border-slate-800 flex justify-between items-center shrink-0">
+        <h3 className="text-sm font-bold text-slate-300 uppercase tracking-wider flex items-center gap-2">
+          <CircleSlash size={16} className="text-rose-400" />
+          Null Test
+        </h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={handleExportJson}
+            disabled={!report}
+            className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+            title="Export JSON"
+          >
+            <FileJson size={14} />
+          </button>
+          <button
+            onClick={handleExportCsv}
+            disabled={!report}
+            className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+            title="Export CSV"
+          >
+            <FileSpreadsheet size={14} />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded text-slate-500 hover:text-white hover:bg-slate-800 transition-colors"
+            title="Close"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      {!report ? (
+        <div className="flex-1 flex items-center justify-center text-xs text-slate-500 p-6 text-center">
+          Load Track A and Track B to run the null test.
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-3 gap-2 p-4 border-b border-slate-800 shrink-0">
+            <div className="bg-slate-900 rounded border border-slate-800 p-2 text-center">
+              <div className="text-[9px] text-slate-500 font-bold uppercase tracking-wider">Rel. RMS</div>
+              <div className="font-mono text-sm font-bold text-rose-300">{report.residualDb <= -100 ? '-inf' : report.relativeDb.toFixed(1)} dB</div>
+            </div>
+            <div className="bg-slate-900 rounded border border-slate-800 p-2 text-center">
+              <div className="text-[9px] text-slate-500 font-bold uppercase tracking-wider">RMS</div>
+              <div className="font-mono text-sm font-bold text-slate-200">{formatDb(report.residualDb)}</div>
+            </div>
+            <div className="bg-slate-900 rounded border border-slate-800 p-2 text-center">
+              <div className="text-[9px] text-slate-500 font-bold uppercase tracking-wider">Peak</div>
+              <div className="font-mono text-sm font-bold text-slate-200">{formatDb(report.peakDb)}</div>
+            </div>
+          </div>
+
+          {/* Threshold */}
+          <div className="px-4 py-3 border-b border-slate-800 flex items-center gap-3 shrink-0">
+            <span className="text-[10px] text-slate-500 font-bold uppercase tracking-wider shrink-0">Threshold</span>
+            <input
+              type="range"
+              min={-100}
+              max={0}
+              step={1}
+              value={thresholdDb}
+              onChange={(e) => onThresholdChange(Number(e.target.value))}
+              className="flex-1 accent-rose-400"
+            />
+            <span className="font-mono text-xs text-rose-300 w-16 text-right">{thresholdDb} dBFS</span>
+          </div>
+
+          {/* Ranges */}
+          <div className="flex-1 overflow-y-auto p-2">
+            {report.ranges.length === 0 ? (
+              <p className="text-xs text-slate-500 text-center py-6">No ranges above threshold.</p>
+            ) : (
+              <table className="w-full text-left border-collapse">
+                <thead className="text-[10px] text-slate-500 uppercase">
+                  <tr>
+                    <th className="pb-2 pl-2">Start</th>
+                    <th className="pb-2">Length</th>
+                    <th className="pb-2">RMS</th>
+                    <th className="pb-2">Peak</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.ranges.map(range => {
+                    const isActive = currentTime >= range.start && currentTime < range.end;
+                    return (
+                      <tr
+                        key={range.start}
+                        onClick={() => onRangeClick(range.start)}
+                        className={clsx(
+                          "border-b border-slate-800/50 text-xs font-mono cursor-pointer transition-colors",
+                          isActive ? "bg-rose-900/20 text-rose-300" : "text-slate-400 hover:bg-slate-900/50 hover:text-slate-200"
+                        )}
+                      >
+                        <td className="py-1.5 pl-2">{formatTime(range.start)}</td>
+                        <td className="py-1.5">{(range.end - range.start).toFixed(2)}s</td>
+                        <td className="py-1.5">{formatDb(range.rmsDb)}</td>
+                        <td className="py-1.5">{formatDb(range.peakDb)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Maximize2 } from 'lucide-react';
+import clsx from 'clsx';
+import { ResidualAnalysis, TimelineView } from '../types';
+import { COLOR_WAVE_PROGRESS } from '../constants';
+import { buildPeakPyramid, drawWaveform } from '../utils/waveformPeaks';
+
+interface ResidualWaveformProps {
+  residual: ResidualAnalysis | null;
+  duration: number; // Timeline duration (seconds)
+  view?: TimelineView; // Visible timeline span, whole timeline if omitted
+  currentTime: number;
+  color: string;
+  className?: string;
+}
+
+const formatDb = (db: number) => db <= -100 ? '-inf' : db.toFixed(1);
+
+export const ResidualWaveform: React.FC<ResidualWaveformProps> = ({ residual, duration, view, currentTime, color, className }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  // Off: absolute scale (full height = 0dBFS) so a good null looks flat.
+  // On: stretch to the residual's own peak to inspect its shape.
+  const [normalize, setNormalize] = useState(false);
+
+  // Track container size
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const observer = new ResizeObserver((entries) => {
+      for (const entry of entries) {
+        setSize({
+          width: Math.floor(entry.contentRect.width),
+          height: Math.floor(entry.contentRect.height),
+        });
+      }
+    });
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  // Peak pyramid (expensive, only on data change) so zooming stays cheap
+  const pyramid = useMemo(
+    () => residual ? buildPeakPyramid(residual.channels, residual.sampleRate) : null,
+    [residual]
+  );
+
+  const viewStart = view?.start ?? 0;
+  const viewEnd = view?.end ?? duration;
+
+  // Draw bars + progress
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || size.width === 0) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = size.width * dpr;
+    canvas.height = size.height * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, size.width, size.height);
+
+    if (!pyramid || viewEnd <= viewStart) return;
+
+    const scale = normalize && pyramid.max > 0 ? 1 / pyramid.max : 1;
+    const progressX = ((currentTime - viewStart) / (viewEnd - viewStart)) * size.width;
+
+    // Faded, then the played part in full colour
+    ctx.fillStyle = ctx.strokeStyle = `${color}40`;
+    drawWaveform(ctx, pyramid, viewStart, viewEnd, size.width, size.height, scale);
+    if (progressX > 0) {
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(0, 0, progressX, size.height);
+      ctx.clip();
+      ctx.clearRect(0, 0, progressX, size.height);
+      ctx.fillStyle = ctx.strokeStyle = color;
+      drawWaveform(ctx, pyramid, viewStart, viewEnd, size.width, size.height, scale);
+      ctx.restore();
+    }
+
+    // Cursor
+    if (progressX >= 0 && progressX <= size.width) {
+      ctx.fillStyle = COLOR_WAVE_PROGRESS;
+      ctx.fillRect(progressX, 0, 1, size.height);
+    }
+  }, [pyramid, size, currentTime, viewStart, viewEnd, color, normalize]);
+
+  const relativeDb = residual ? residual.residualDb - residual.sourceDb : null;
+
+  return (
+    <div className={clsx("w-full h-full relative", className)}>
+      {/* Level Readout */}
+      <div className="absolute top-3 right-4 z-20 flex items-center gap-3 text-[10px] font-mono">
+        {residual ? (
+          <>
+            <span className="text-slate-500">RMS <span className="text-rose-300 font-bold">{formatDb(residual.residualDb)} dB</span></span>
+            <span className="text-slate-500">REL <span className="text-rose-300 font-bold">{relativeDb !== null && residual.residualDb > -100 ? relativeDb.toFixed(1) : '-inf'} dB</span></span>
+            <span className="text-slate-500">PEAK <span className="text-rose-300 font-bold">{formatDb(residual.peakDb)} dB</span></span>
+          </>
+        ) : (
+          <span className="text-slate-600">Load Track A and B to compute the residual</span>
+        )}
+        <button
+          onClick={() => setNormalize(!normalize)}
+          className={clsx(
+            "p-1 rounded transition-colors",
+            normalize ? "text-rose-300 bg-rose-900/30" : "text-slate-500 hover:text-slate-300 hover:bg-slate-800"
+          )}
+          title={normalize ? "Absolute Scale" : "Normalize Residual"}
+        >
+          <Maximize2 size={12} />
+        </button>
+      </div>
+
+      <div ref={containerRef} className="absolute inset-0">
+        <canvas ref={canvasRef} className="w-full h-full" />
+      </div>
+    </div>
+  );
+};
@@ -1,53 +1,154 @@
 import React, { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { COLOR_WAVE_PROGRESS } from '../constants';
+import { X } from 'lucide-react';
+import { COLOR_WAVE_PROGRESS, COLOR_BEAT_GRID } from '../constants';
+import { LoopRegion, Marker, TimelineView, Beat } from '../types';
+import { beatGridLines } from '../utils/timelineView';
 
 interface RulerProps {
   duration: number;
   currentTime: number;
   onSeek: (progress: number) => void;
   playheadMaxLength?: string;
+  loop?: LoopRegion | null;
+  isLoopEnabled?: boolean;
+  onLoopChange?: (loop: LoopRegion | null) => void;
+  snapTimes?: number[]; // Sorted times loop points snap to (e.g. beats)
+  markers?: Marker[]; // Timeline times
+  view?: TimelineView; // Visible span, whole duration if omitted
+  beats?: Beat[]; // Beat/bar grid with bar numbers (timeline times)
 }
 
-export const Ruler: React.FC<RulerProps> = ({ duration, currentTime, onSeek, playheadMaxLength }) => {
+type DragMode = 'seek' | 'loop-new' | 'loop-start' | 'loop-end';
+
+const SNAP_DISTANCE_PX = 8;
+const MIN_LOOP_SECONDS = 0.05;
+
+const COLOR_LOOP = '#fbbf24'; // tailwind amber-400
+const COLOR_MARKER = '#38bdf8'; // tailwind sky-400
+
+// Nearest value in a sorted array (binary search)
+const nearest = (sorted: number[], value: number) => {
+  let lo = 0;
+  let hi = sorted.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid] < value) lo = mid;
+    else hi = mid;
+  }
+  return Math.abs(sorted[lo] - value) <= Math.abs(sorted[hi] - value) ? sorted[lo] : sorted[hi];
+};
+
+export const Ruler: React.FC<RulerProps> = ({ 
+  duration, 
+  currentTime, 
+  onSeek, 
+  playheadMaxLength,
+  loop = null,
+  isLoopEnabled = false,
+  onLoopChange,
+  snapTimes,
+  markers = [],
+  view,
+  beats
+}) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const [isDragging, setIsDragging] = useState(false);
+  const [dragMode, setDragMode] = useState<DragMode | null>(null);
+  // Loop being dragged; only committed on mouse up so playback isn't rescheduled on every move
+  const [draftLoop, setDraftLoop] = useState<LoopRegion | null>(null);
+  const anchorRef = useRef(0);
+  const [width, setWidth] = useState(0);
+
+  // Track width (the beat grid thins out by pixel spacing)
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const observer = new ResizeObserver((entries) => {
+      for (const entry of entries) setWidth(Math.floor(entry.contentRect.width));
+    });
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  const viewStart = view?.start ?? 0;
+  const viewEnd = view?.end ?? duration;
+  const viewLength = viewEnd - viewStart;
+  // Position of a timeline time in percent of the ruler width
+  const toPercent = (time: number) => ((time - viewStart) / viewLength) * 100;
 
-  // Helper to calculate progress from event
-  const getProgress = (clientX: number) => {
+  // Timeline time under the pointer
+  const getTime = (clientX: number) => {
     if (!containerRef.current) return 0;
     const rect = containerRef.current.getBoundingClientRect();
-    const x = clientX - rect.left;
-    return Math.max(0, Math.min(1, x / rect.width));
+    const x = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    return viewStart + x * viewLength;
+  };
+
+  // Helper to calculate progress (of the whole duration) from event
+  const getProgress = (clientX: number) => duration > 0 ? getTime(clientX) / duration : 0;
+
+  // Timeline time under the pointer, snapped to the nearest snap time within reach
+  const getSnappedTime = (clientX: number) => {
+    const time = getTime(clientX);
+    if (!snapTimes || snapTimes.length === 0 || !containerRef.current) return time;
+    const reach = (SNAP_DISTANCE_PX / containerRef.current.clientWidth) * viewLength;
+    const snapped = nearest(snapTimes, time);
+    return Math.abs(snapped - time) <= reach ? snapped : time;
   };
 
+  // Plain drag seeks, Shift + drag draws a new loop region
   const handleMouseDown = (e: React.MouseEvent) => {
-    setIsDragging(true);
+    if (e.shiftKey && onLoopChange && duration > 0) {
+      anchorRef.current = getSnappedTime(e.clientX);
+      setDraftLoop({ start: anchorRef.current, end: anchorRef.current });
+      setDragMode('loop-new');
+      return;
+    }
+    setDragMode('seek');
     onSeek(getProgress(e.clientX));
   };
 
+  const handleHandleMouseDown = (edge: 'start' | 'end', e: React.MouseEvent) => {
+    if (!loop) return;
+    e.stopPropagation();
+    anchorRef.current = edge === 'start' ? loop.end : loop.start;
+    setDraftLoop(loop);
+    setDragMode(edge === 'start' ? 'loop-start' : 'loop-end');
+  };
+
   useEffect(() => {
+    if (!dragMode) return;
+
     const handleMouseMove = (e: MouseEvent) => {
-      if (isDragging) {
+      if (dragMode === 'seek') {
         onSeek(getProgress(e.clientX));
+        return;
       }
+      // Loop edges: the opposite edge stays anchored, dragging past it swaps them
+      const time = getSnappedTime(e.clientX);
+      setDraftLoop({ start: Math.min(anchorRef.current, time), end: Math.max(anchorRef.current, time) });
     };
 
     const handleMouseUp = () => {
-      setIsDragging(false);
+      if (dragMode !== 'seek' && draftLoop && onLoopChange) {
+        if (draftLoop.end - draftLoop.start >= MIN_LOOP_SECONDS) onLoopChange(draftLoop);
+      }
+      setDragMode(null);
+      setDraftLoop(null);
     };
 
-    if (isDragging) {
-      window.addEventListener('mousemove', handleMouseMove);
-      window.addEventListener('mouseup', handleMouseUp);
-    }
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
 
     return () => {
       window.removeEventListener('mousemove', handleMouseMove);
       window.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [isDragging, onSeek]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dragMode, draftLoop, onSeek, onLoopChange, duration, snapTimes, viewStart, viewEnd]);
+
+  const shownLoop = draftLoop ?? loop;
+  const loopActive = isLoopEnabled || !!draftLoop;
 
   // Draw the static ruler (Ticks and Numbers)
   useEffect(() => {
@@ -61,16 +162,22 @@ export const Ruler: React.FC<RulerProps> = ({ duration, currentTime, onSeek, pla
 
     // Scale
     const xScale = d3.scaleLinear()
-      .domain([0, duration])
+      .domain([viewStart, viewEnd])
       .range([0, width]);
 
+    // Zoomed in, ticks fall between whole seconds: show as many decimals as the tick step needs
+    const ticks = xScale.ticks(width / 100);
+    const step = ticks.length > 1 ? ticks[1] - ticks[0] : 1;
+    const decimals = Math.max(0, Math.min(6, Math.ceil(-Math.log10(step) - 1e-9)));
+
     // Axis
     const axis = d3.axisBottom(xScale)
       .tickFormat((d) => {
         const s = d as number;
         const min = Math.floor(s / 60);
-        const sec = Math.floor(s % 60);
-        return `${min}:${sec.toString().padStart(2, '0')}`;
+        const sec = s - min * 60;
+        const secText = decimals > 0 ? sec.toFixed(decimals).padStart(decimals + 3, '0') : Math.floor(sec).toString().padStart(2, '0');
+        return `${min}:${secText}`;
       })
       .ticks(width / 100) // responsive ticks
       .tickSize(8)
@@ -84,7 +191,7 @@ export const Ruler: React.FC<RulerProps> = ({ duration, currentTime, onSeek, pla
     g.selectAll('.tick line').attr('stroke', '#334155');
     g.selectAll('.tick text').attr('fill', '#64748b');
 
-  }, [duration]); // Only redraw if duration changes (or resize)
+  }, [duration, viewStart, viewEnd, width]); // Only redraw if duration, view or size changes
 
   // Draw dynamic Playhead
   useEffect(() => {
@@ -92,10 +199,11 @@ export const Ruler: React.FC<RulerProps> = ({ duration, currentTime, onSeek, pla
     
     const width = containerRef.current.clientWidth;
     const svg = d3.select(svgRef.current);
-    const xPos = (currentTime / duration) * width;
+    const xPos = ((currentTime - viewStart) / viewLength) * width;
 
     // Remove old playhead
     svg.select('.playhead').remove();
+    if (xPos < 0 || xPos > width) return;
 
     const marker = svg.append('g')
        .attr('class', 'playhead')
@@ -114,7 +222,7 @@ export const Ruler: React.FC<RulerProps> = ({ duration, currentTime, onSeek, pla
         .attr('stroke-width', 1)
         .attr('opacity', 0.5);
 
-  }, [currentTime, duration]);
+  }, [currentTime, duration, viewStart, viewLength]);
 
   return (
     <div 
@@ -123,12 +231,108 @@ export const Ruler: React.FC<RulerProps> = ({ duration, currentTime, onSeek, pla
       onMouseDown={handleMouseDown}
     >
       <svg ref={svgRef} className="w-full h-full overflow-visible pointer-events-none" />
+      {/* Beat Grid: ticks along the bottom edge, bar numbers on downbeats */}
+      {duration > 0 && beats && beatGridLines(beats, { start: viewStart, end: viewEnd }, width).map(line => (
+        <div
+          key={line.beat.time}
+          className="absolute bottom-0 pointer-events-none"
+          style={{ left: line.x, height: line.isDownbeat ? 10 : 4 }}
+        >
+          <div className="w-px h-full" style={{ backgroundColor: `${COLOR_BEAT_GRID}${line.isDownbeat ? '90' : '40'}` }} />
+          {line.label && (
+            <span className="absolute bottom-0 left-1 text-[9px] leading-none font-mono text-slate-400 select-none">
+              {line.label}
+            </span>
+          )}
+        </div>
+      ))}
+      {/* Markers & Regions: flag + label in the ruler, faint line / band across the decks */}
+      {duration > 0 && markers.map(marker => {
+        if (marker.start > viewEnd || (marker.end ?? marker.start) < viewStart) return null;
+        const left = toPercent(Math.max(viewStart, marker.start));
+        const width = marker.end !== null ? toPercent(Math.min(viewEnd, marker.end)) - left : 0;
+        return (
+          <React.Fragment key={marker.id}>
+            <div
+              className="absolute top-0 pointer-events-none z-10"
+              style={{
+                left: `${left}%`,
+                width: marker.end !== null ? `${width}%` : undefined,
+                height: playheadMaxLength || '200vh',
+                backgroundColor: marker.end !== null ? `${COLOR_MARKER}0a` : undefined,
+                borderLeft: `1px solid ${COLOR_MARKER}50`,
+                borderRight: marker.end !== null ? `1px solid ${COLOR_MARKER}30` : undefined,
+              }}
+            />
+            <div
+              className="absolute bottom-0 h-4 pl-1 pr-1.5 z-20 pointer-events-none text-[9px] font-bold leading-4 truncate text-slate-950 rounded-r-sm"
+              style={{
+                left: `${left}%`,
+                maxWidth: marker.end !== null ? `max(${width}%, 4rem)` : '8rem',
+                backgroundColor: `${COLOR_MARKER}${marker.end !== null ? '90' : 'c0'}`,
+              }}
+            >
+              {marker.name}
+            </div>
+          </React.Fragment>
+        );
+      })}
+      {/* Loop Region: band + handles in the ruler, tint across the decks below */}
+      {duration > 0 && shownLoop && shownLoop.end >= viewStart && shownLoop.start <= viewEnd && (
+        <>
+          <div
+            className="absolute top-0 pointer-events-none z-20"
+            style={{
+              left: `${toPercent(Math.max(viewStart, shownLoop.start))}%`,
+              width: `${toPercent(Math.min(viewEnd, shownLoop.end)) - toPercent(Math.max(viewStart, shownLoop.start))}%`,
+              height: playheadMaxLength || '200vh',
+              backgroundColor: `${COLOR_LOOP}${loopActive ? '14' : '08'}`,
+              borderLeft: `1px solid ${COLOR_LOOP}${loopActive ? '80' : '30'}`,
+              borderRight: `1px solid ${COLOR_LOOP}${loopActive ? '80' : '30'}`,
+            }}
+          />
+          <div
+            className="absolute top-0 h-2 z-30 flex items-center justify-end"
+            style={{
+              left: `${toPercent(Math.max(viewStart, shownLoop.start))}%`,
+              width: `${toPercent(Math.min(viewEnd, shownLoop.end)) - toPercent(Math.max(viewStart, shownLoop.start))}%`,
+              backgroundColor: `${COLOR_LOOP}${loopActive ? 'b0' : '40'}`,
+            }}
+          >
+            {!draftLoop && onLoopChange && (
+              <button
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={() => onLoopChange(null)}
+                className="h-2 px-0.5 text-slate-950 hover:text-white"
+                title="Clear Loop"
+              >
+                <X size={8} strokeWidth={4} />
+              </button>
+            )}
+          </div>
+          {onLoopChange && (['start', 'end'] as const).map(edge => {
+            const time = edge === 'start' ? shownLoop.start : shownLoop.end;
+            if (time < viewStart || time > viewEnd) return null;
+            return (
+              <div
+                key={edge}
+                onMouseDown={(e) => handleHandleMouseDown(edge, e)}
+                className="absolute top-0 h-full w-2 -ml-1 z-30 cursor-ew-resize group/handle"
+                style={{ left: `${toPercent(time)}%` }}
+                title={edge === 'start' ? 'Loop Start' : 'Loop End'}
+              >
+                <div className="mx-auto w-0.5 h-full opacity-60 group-hover/handle:opacity-100" style={{ backgroundColor: COLOR_LOOP }} />
+              </div>
+            );
+          })}
+        </>
+      )}
       {/* Visual Playhead Line that spans the screen or limited height */}
-      {duration > 0 && (
+      {duration > 0 && currentTime >= viewStart && currentTime <= viewEnd && (
         <div 
             className="absolute top-0 w-px bg-white pointer-events-none z-30 shadow-[0_0_10px_rgba(255,255,255,0.5)] mix-blend-overlay"
             style={{ 
-                left: `${(currentTime / duration) * 100}%`,
+                left: `${toPercent(currentTime)}%`,
                 opacity: 0.6,
                 height: playheadMaxLength || '200vh'
             }} 
@@ -0,0 +1,91 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TimelineView, WaveSurferInstance } from '../types';
+import { COLOR_WAVE_PROGRESS } from '../constants';
+import { renderSpectrogram, SpectrogramSettings } from '../utils/spectrogram';
+import { getDeckTime } from '../utils/audioAnalysis';
+
+interface SpectrogramProps {
+  buffer: AudioBuffer | null;
+  ws: WaveSurferInstance | null;
+  settings: SpectrogramSettings;
+  view?: TimelineView; // In the deck's own time, whole buffer if omitted
+  className?: string;
+}
+
+export const Spectrogram: React.FC<SpectrogramProps> = ({ buffer, ws, settings, view, className }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const cursorRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [isRendering, setIsRendering] = useState(false);
+
+  // Track container size
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const observer = new ResizeObserver((entries) => {
+      for (const entry of entries) {
+        setSize({
+          width: Math.floor(entry.contentRect.width),
+          height: Math.floor(entry.contentRect.height),
+        });
+      }
+    });
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  const viewStart = view?.start ?? 0;
+  const viewEnd = view?.end ?? buffer?.duration ?? 0;
+
+  // Render the image (expensive, only on data/size/settings/view change).
+  // Deferred a frame so the "Rendering" state can paint first.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !buffer || size.width === 0 || size.height === 0) return;
+
+    setIsRendering(true);
+    const timer = setTimeout(() => {
+      const ctx = canvas.getContext('2d');
+      if (ctx) {
+        canvas.width = size.width;
+        canvas.height = size.height;
+        ctx.putImageData(renderSpectrogram(buffer, size.width, size.height, settings, { start: viewStart, end: viewEnd }), 0, 0);
+      }
+      setIsRendering(false);
+    }, 16);
+
+    return () => clearTimeout(timer);
+  }, [buffer, size, settings, viewStart, viewEnd]);
+
+  // Follow the playhead without re-rendering React on every tick
+  useEffect(() => {
+    if (!ws) return;
+
+    const update = (time: number) => {
+      if (!cursorRef.current || viewEnd <= viewStart) return;
+      const progress = (time - viewStart) / (viewEnd - viewStart);
+      cursorRef.current.style.left = `${progress * 100}%`;
+      cursorRef.current.style.display = progress < 0 || progress > 1 ? 'none' : 'block';
+    };
+    update(getDeckTime(ws));
+
+    ws.on('timeupdate', update);
+    return () => ws.un('timeupdate', update);
+  }, [ws, buffer, viewStart, viewEnd]);
+
+  return (
+    <div ref={containerRef} className={className}>
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+      <div
+        ref={cursorRef}
+        className="absolute top-0 bottom-0 w-px pointer-events-none"
+        style={{ left: 0, backgroundColor: COLOR_WAVE_PROGRESS }}
+      />
+      {isRendering && (
+        <div className="absolute bottom-2 right-4 text-[10px] font-mono text-cyan-400 animate-pulse">
+          Rendering Spectrogram...
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,259 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioLines, X } from 'lucide-react';
+import clsx from 'clsx';
+import { WaveSurferInstance } from '../types';
+import { powerSpectrum, smoothSpectrum, powerToDb, valueAtFrequency } from '../utils/spectrum';
+import { getDeckTime } from '../utils/audioAnalysis';
+
+export interface SpectrumSource {
+  id: string;
+  ws: WaveSurferInstance | null;
+  color: string;
+}
+
+interface SpectrumAnalyzerProps {
+  sources: SpectrumSource[];
+  onClose?: () => void;
+}
+
+const FFT_SIZE = 8192;
+const MIN_FREQ = 20;
+const MAX_FREQ = 20000;
+const MIN_DB = -96;
+const MAX_DB = 0;
+const DIFF_RANGE_DB = 24; // Difference curve spans +/- this range
+const PEAK_DECAY_DB = 0.15; // Per frame
+
+const FREQ_GRID = [20, 50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000];
+const COLOR_DIFF = '#fbbf24'; // tailwind amber-400
+
+const formatFreq = (f: number) => f >= 1000 ? `${f / 1000}k` : `${f}`;
+
+export const SpectrumAnalyzer: React.FC<SpectrumAnalyzerProps> = ({ sources, onClose }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rafRef = useRef<number>(0);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  const [smoothing, setSmoothing] = useState(3); // 1/N octave, 0 = off
+  const [peakHold, setPeakHold] = useState(true);
+  const [showDiff, setShowDiff] = useState(true);
+
+  // Track container size
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const observer = new ResizeObserver((entries) => {
+      for (const entry of entries) {
+        setSize({
+          width: Math.floor(entry.contentRect.width),
+          height: Math.floor(entry.contentRect.height),
+        });
+      }
+    });
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || size.width === 0 || size.height === 0) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = size.width * dpr;
+    canvas.height = size.height * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    const { width, height } = size;
+    const axisHeight = 14;
+    const plotHeight = height - axisHeight;
+
+    // -- Helpers: frequency / dB to pixels --
+    const logMin = Math.log10(MIN_FREQ);
+    const logMax = Math.log10(MAX_FREQ);
+    const freqToX = (f: number) => ((Math.log10(f) - logMin) / (logMax - logMin)) * width;
+    const xToFreq = (x: number) => Math.pow(10, logMin + (x / width) * (logMax - logMin));
+    const dbToY = (db: number) => {
+      const clamped = Math.max(MIN_DB, Math.min(MAX_DB, db));
+      return ((MAX_DB - clamped) / (MAX_DB - MIN_DB)) * plotHeight;
+    };
+    const diffToY = (db: number) => {
+      const clamped = Math.max(-DIFF_RANGE_DB, Math.min(DIFF_RANGE_DB, db));
+      return plotHeight / 2 - (clamped / DIFF_RANGE_DB) * (plotHeight / 2);
+    };
+
+    // Peak hold state per source (dB per bin)
+    const peaks = new Map<string, Float64Array>();
+
+    const drawCurve = (values: ArrayLike<number>, binHz: number, toY: (v: number) => number, color: string, lineWidth: number) => {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = lineWidth;
+      ctx.beginPath();
+      for (let x = 0; x <= width; x++) {
+        const y = toY(valueAtFrequency(values, xToFreq(x), binHz));
+        if (x === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      }
+      ctx.stroke();
+    };
+
+    const draw = () => {
+      ctx.clearRect(0, 0, width, height);
+
+      // 1. Grid
+      ctx.strokeStyle = '#1e293b';
+      ctx.lineWidth = 1;
+      ctx.fillStyle = '#64748b';
+      ctx.font = '9px monospace';
+      ctx.beginPath();
+      for (const f of FREQ_GRID) {
+        const x = Math.round(freqToX(f)) + 0.5;
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, plotHeight);
+      }
+      for (let db = MAX_DB; db >= MIN_DB; db -= 12) {
+        const y = Math.round(dbToY(db)) + 0.5;
+        ctx.moveTo(0, y);
+        ctx.lineTo(width, y);
+      }
+      ctx.stroke();
+
+      ctx.textAlign = 'center';
+      for (const f of FREQ_GRID) {
+        ctx.fillText(formatFreq(f), Math.min(width - 10, Math.max(10, freqToX(f))), height - 3);
+      }
+      ctx.textAlign = 'left';
+      for (let db = MAX_DB - 12; db > MIN_DB; db -= 24) {
+        ctx.fillText(`${db}`, 2, dbToY(db) - 2);
+      }
+
+      // 2. Spectra at the playhead (window ends at the current position)
+      const spectra: { id: string; db: Float64Array; binHz: number; color: string }[] = [];
+      for (const source of sources) {
+        const buffer = source.ws?.getDecodedData();
+        if (!source.ws || !buffer) continue;
+
+        const channels: Float32Array[] = [];
+        for (let c = 0; c < buffer.numberOfChannels; c++) channels.push(buffer.getChannelData(c));
+        const start = Math.floor(getDeckTime(source.ws) * buffer.sampleRate) - FFT_SIZE;
+
+        const power = smoothSpectrum(powerSpectrum(channels, start, FFT_SIZE), smoothing);
+        const db = new Float64Array(power.length);
+        for (let k = 0; k < power.length; k++) db[k] = powerToDb(power[k]);
+        spectra.push({ id: source.id, db, binHz: buffer.sampleRate / FFT_SIZE, color: source.color });
+      }
+
+      // 3. Peak hold (drawn underneath the live curves)
+      for (const spec of spectra) {
+        if (!peakHold) {
+          peaks.delete(spec.id);
+          continue;
+        }
+        let peak = peaks.get(spec.id);
+        if (!peak || peak.length !== spec.db.length) {
+          peak = Float64Array.from(spec.db);
+          peaks.set(spec.id, peak);
+        }
+        for (let k = 0; k < peak.length; k++) {
+          peak[k] = Math.max(spec.db[k], peak[k] - PEAK_DECAY_DB);
+        }
+        drawCurve(peak, spec.binHz, dbToY, `${spec.color}55`, 1);
+      }
+
+      // 4. Live curves
+      for (const spec of spectra) {
+        drawCurve(spec.db, spec.binHz, dbToY, spec.color, 1.5);
+      }
+
+      // 5. Difference (first source minus second) on its own +/- scale
+      if (showDiff && spectra.length === 2 && spectra[0].binHz === spectra[1].binHz) {
+        const [a, b] = spectra;
+        const delta = new Float64Array(a.db.length);
+        for (let k = 0; k < delta.length; k++) delta[k] = a.db[k] - b.db[k];
+
+        ctx.strokeStyle = `${COLOR_DIFF}40`;
+        ctx.setLineDash([4, 4]);
+        ctx.beginPath();
+        ctx.moveTo(0, diffToY(0));
+        ctx.lineTo(width, diffToY(0));
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        drawCurve(delta, a.binHz, diffToY, COLOR_DIFF, 1.5);
+
+        ctx.fillStyle = COLOR_DIFF;
+        ctx.textAlign = 'right';
+        ctx.fillText(`+${DIFF_RANGE_DB}`, width - 2, 10);
+        ctx.fillText(`-${DIFF_RANGE_DB}`, width - 2, plotHeight - 2);
+        ctx.textAlign = 'left';
+      }
+
+      rafRef.current = requestAnimationFrame(draw);
+    };
+
+    draw();
+
+    return () => cancelAnimationFrame(rafRef.current);
+  }, [sources, size, smoothing, peakHold, showDiff]);
+
+  return (
+    <div className="flex flex-col h-full bg-slate-950">
+      {/* Header */}
+      <div className="px-4 py-3 bg-slate-900 border-b border-slate-800 flex justify-between items-center shrink-0 gap-2">
+        <h3 className="text-sm font-bold text-slate-300 uppercase tracking-wider flex items-center gap-2 shrink-0">
+          <AudioLines size={16} className="text-cyan-400" />
+          Spectrum
+        </h3>
+        <div className="flex items-center gap-1">
+          <select
+            value={smoothing}
+            onChange={(e) => setSmoothing(Number(e.target.value))}
+            className="bg-slate-800 text-[10px] text-slate-300 rounded px-1 py-0.5 outline-none border border-slate-700"
+            style={{ colorScheme: 'dark' }}
+            title="Octave Smoothing"
+          >
+            <option value={0}>Raw</option>
+            <option value={3}>1/3 oct</option>
+            <option value={6}>1/6 oct</option>
+          </select>
+          <button
+            onClick={() => setPeakHold(!peakHold)}
+            className={clsx(
+              "px-1.5 py-0.5 rounded text-[10px] font-bold border transition-colors",
+              peakHold ? "text-cyan-300 border-cyan-500/40 bg-cyan-900/30" : "text-slate-500 border-slate-700 hover:text-slate-300"
+            )}
+            title="Peak Hold"
+          >
+            PEAK
+          </button>
+          {sources.length === 2 && (
+            <button
+              onClick={() => setShowDiff(!showDiff)}
+              className={clsx(
+                "px-1.5 py-0.5 rounded text-[10px] font-bold border transition-colors",
+                showDiff ? "text-amber-300 border-amber-500/40 bg-amber-900/30" : "text-slate-500 border-slate-700 hover:text-slate-300"
+              )}
+              title="EQ Difference (A − B)"
+            >
+              Δ
+            </button>
+          )}
+          {onClose && (
+            <button
+              onClick={onClose}
+              className="p-1.5 rounded text-slate-500 hover:text-white hover:bg-slate-800 transition-colors"
+              title="Close"
+            >
+              <X size={14} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div ref={containerRef} className="flex-1 relative overflow-hidden m-2">
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+      </div>
+    </div>
+  );
+};
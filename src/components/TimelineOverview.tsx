@@ -0,0 +1,144 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { TimelineView } from '../types';
+import { COLOR_WAVE_PROGRESS } from '../constants';
+import { getPeakPyramid, drawWaveform } from '../utils/waveformPeaks';
+
+interface TimelineOverviewProps {
+  duration: number;
+  view: TimelineView;
+  currentTime: number;
+  buffer: AudioBuffer | null; // Reference track drawn in the strip
+  offset?: number; // Reference deck time = timeline time + offset
+  color: string;
+  onViewChange: (view: TimelineView | null) => void; // null = whole timeline
+}
+
+/**
+ * Whole-timeline strip above the Ruler. The highlighted box is the visible
+ * window: drag it to scroll, click elsewhere to jump there, double click to
+ * zoom all the way out.
+ */
+export const TimelineOverview: React.FC<TimelineOverviewProps> = ({
+  duration,
+  view,
+  currentTime,
+  buffer,
+  offset = 0,
+  color,
+  onViewChange
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const dragRef = useRef<{ clientX: number; view: TimelineView } | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const pyramid = useMemo(() => buffer ? getPeakPyramid(buffer) : null, [buffer]);
+
+  // Track container size
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const observer = new ResizeObserver((entries) => {
+      for (const entry of entries) {
+        setSize({
+          width: Math.floor(entry.contentRect.width),
+          height: Math.floor(entry.contentRect.height),
+        });
+      }
+    });
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  // Draw the reference track over the whole timeline
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || size.width === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = size.width * dpr;
+    canvas.height = size.height * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, size.width, size.height);
+
+    if (!pyramid || duration <= 0) return;
+    ctx.fillStyle = ctx.strokeStyle = `${color}60`;
+    drawWaveform(ctx, pyramid, offset, duration + offset, size.width, size.height, pyramid.max > 0 ? 1 / pyramid.max : 1);
+  }, [pyramid, size, duration, offset, color]);
+
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const drag = dragRef.current;
+      if (!drag || !containerRef.current) return;
+      const shift = ((e.clientX - drag.clientX) / containerRef.current.clientWidth) * duration;
+      onViewChange({ start: drag.view.start + shift, end: drag.view.end + shift });
+    };
+
+    const handleMouseUp = () => {
+      dragRef.current = null;
+      setIsDragging(false);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isDragging, duration, onViewChange]);
+
+  // Clicking outside the window centres it on the click, then drags from there
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (!containerRef.current || duration <= 0) return;
+    const rect = containerRef.current.getBoundingClientRect();
+    const time = ((e.clientX - rect.left) / rect.width) * duration;
+    let current = view;
+    if (time < view.start || time > view.end) {
+      const half = (view.end - view.start) / 2;
+      current = { start: time - half, end: time + half };
+      onViewChange(current);
+    }
+    dragRef.current = { clientX: e.clientX, view: current };
+    setIsDragging(true);
+  };
+
+  const isZoomed = duration > 0 && (view.start > 0 || view.end < duration);
+  const zoomFactor = isZoomed ? duration / (view.end - view.start) : 1;
+  const toPercent = (time: number) => duration > 0 ? (time / duration) * 100 : 0;
+
+  return (
+    <div
+      ref={containerRef}
+      className="w-full h-full relative cursor-pointer select-none"
+      onMouseDown={handleMouseDown}
+      onDoubleClick={() => onViewChange(null)}
+      title="Drag to scroll, double click to zoom out"
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+      {isZoomed && (
+        <div
+          className="absolute inset-y-0 border border-slate-400/70 bg-slate-100/10 rounded-sm"
+          style={{
+            left: `${toPercent(view.start)}%`,
+            width: `max(${toPercent(view.end) - toPercent(view.start)}%, 2px)`,
+          }}
+        />
+      )}
+      {duration > 0 && (
+        <div
+          className="absolute inset-y-0 w-px pointer-events-none opacity-70"
+          style={{ left: `${toPercent(currentTime)}%`, backgroundColor: COLOR_WAVE_PROGRESS }}
+        />
+      )}
+      {isZoomed && (
+        <span className="absolute right-1 top-0 text-[9px] leading-4 font-mono text-slate-400 pointer-events-none">
+          ×{zoomFactor.toFixed(zoomFactor < 10 ? 1 : 0)}
+        </span>
+      )}
+    </div>
+  );
+};
@@ -1,38 +1,73 @@
 
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import WaveSurfer from 'wavesurfer.js'; 
-import { Upload } from 'lucide-react';
-import { TrackData, TrackId, WaveSurferInstance } from '../types';
+import { Upload, AudioWaveform, Rainbow } from 'lucide-react';
+import { TrackData, TrackId, WaveSurferInstance, LoudnessStats, TimelineView, Beat } from '../types';
 import { COLOR_WAVE_PROGRESS } from '../constants';
+import { Spectrogram } from './Spectrogram';
+import { DeckWaveform } from './DeckWaveform';
+import { BeatGridOverlay } from './BeatGridOverlay';
+import { 
+  SpectrogramSettings, 
+  DEFAULT_SPECTROGRAM_SETTINGS, 
+  FFT_SIZE_OPTIONS, 
+  FrequencyScale, 
+  ColorMapName 
+} from '../utils/spectrogram';
 import clsx from 'clsx';
 
+type DeckViewMode = 'waveform' | 'spectrogram';
+
 interface TrackDeckProps {
   id: TrackId;
   track: TrackData | null;
   color: string;
+  label?: string; // Badge text, defaults to the id
   height?: number | 'auto'; // Updated to accept 'auto' or be optional effectively via logic
   readOnly?: boolean;
   className?: string;
   onUpload?: (file: File) => void;
   onReady: (id: TrackId, ws: WaveSurferInstance) => void;
   onTimeUpdate?: (time: number) => void;
+  sampleRate?: number; // Decoding rate for getDecodedData(), WaveSurfer default if omitted
+  loudness?: LoudnessStats | null;
+  hideName?: boolean; // Blind tests: show a placeholder instead of the file name
+  view?: TimelineView | null; // Visible timeline span, whole track if omitted
+  offset?: number; // Deck time = timeline time + offset
+  beats?: Beat[]; // Beat/bar grid drawn over the deck (deck time)
 }
 
 export const TrackDeck: React.FC<TrackDeckProps> = ({ 
   id, 
   track, 
   color, 
+  label,
   height = 'auto', 
   readOnly = false,
   className,
   onUpload, 
   onReady, 
-  onTimeUpdate 
+  onTimeUpdate,
+  sampleRate,
+  loudness,
+  hideName = false,
+  view = null,
+  offset = 0,
+  beats
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const wsRef = useRef<WaveSurfer | null>(null);
   const [isDragOver, setIsDragOver] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [viewMode, setViewMode] = useState<DeckViewMode>('waveform');
+  const [spectrogramSettings, setSpectrogramSettings] = useState<SpectrogramSettings>(DEFAULT_SPECTROGRAM_SETTINGS);
+  // Decoded buffer for the spectrogram (refreshed on every load)
+  const [decoded, setDecoded] = useState<AudioBuffer | null>(null);
+
+  // Visible span in this deck's own time
+  const viewStart = view ? view.start + offset : 0;
+  const viewEnd = view ? view.end + offset : decoded?.duration ?? 0;
+  const deckView = useMemo(() => ({ start: viewStart, end: viewEnd }), [viewStart, viewEnd]);
 
   // Initialize WaveSurfer
   useEffect(() => {
@@ -41,21 +76,18 @@ export const TrackDeck: React.FC<TrackDeckProps> = ({
     // Determine initial height
     const initialHeight = typeof height === 'number' ? height : (containerRef.current.clientHeight || 128);
 
+    // WaveSurfer decodes (and plays, in the Analyzer); the visible waveform is
+    // drawn by DeckWaveform so it can follow the shared zoom down to single samples.
     const ws = WaveSurfer.create({
       container: containerRef.current,
       waveColor: `${color}40`, 
       progressColor: color,
       cursorColor: COLOR_WAVE_PROGRESS,
       height: initialHeight,
-      barWidth: 2,
-      barGap: 3,
-      barRadius: 3,
-      normalize: true, 
-      minPxPerSec: 50,
       interact: false, // Always disable click-to-seek on wave, use Ruler
       cursorWidth: 1,
-      autoScroll: true,
       hideScrollbar: true,
+      ...(sampleRate ? { sampleRate } : {}),
     });
 
     // Important: Start silent so we can apply crossfade/auto-gain logic in App.tsx without volume blips
@@ -65,6 +97,7 @@ export const TrackDeck: React.FC<TrackDeckProps> = ({
 
     ws.on('ready', () => {
       setIsLoading(false);
+      setDecoded(ws.getDecodedData());
       onReady(id, ws as unknown as WaveSurferInstance);
     });
 
@@ -79,7 +112,7 @@ export const TrackDeck: React.FC<TrackDeckProps> = ({
       ws.destroy();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [color, id, readOnly]); // Removed height from dependency to prevent re-init on resize
+  }, [id, readOnly, sampleRate]); // Removed height from dependency to prevent re-init on resize
 
   // Handle Dynamic Resize
   useEffect(() => {
@@ -157,13 +190,19 @@ export const TrackDeck: React.FC<TrackDeckProps> = ({
               className="w-8 h-8 rounded flex items-center justify-center text-slate-950 font-bold"
               style={{ backgroundColor: color }}
             >
-              {id}
+              {label ?? id}
             </div>
             <div>
                <h3 className={clsx("font-medium shadow-black drop-shadow-md", track ? "text-white" : "text-slate-500")}>
-                 {track ? track.name : "No Track Loaded"}
+                 {track ? (hideName ? "Hidden Track" : track.name) : "No Track Loaded"}
                </h3>
                {isLoading && <span className="text-xs text-cyan-400 animate-pulse">Decoding Audio...</span>}
+               {!isLoading && track && loudness && (
+                 <span className="text-[10px] font-mono text-slate-400 drop-shadow-md">
+                   <span className="text-emerald-400 font-bold">{loudness.integrated <= -100 ? '-inf' : loudness.integrated.toFixed(1)} LUFS</span>
+                   {' · '}LRA {loudness.range.toFixed(1)} LU
+                 </span>
+               )}
             </div>
           </div>
         </div>
@@ -182,9 +221,52 @@ export const TrackDeck: React.FC<TrackDeckProps> = ({
         </div>
       )}
 
-      {/* Change Track Button (Visible on hover if track exists) */}
+      {/* Deck Toolbar: View Mode + Change Track (Visible on hover if track exists) */}
       {!readOnly && track && (
-        <div className="absolute top-4 right-4 z-10 opacity-0 group-hover:opacity-100 transition-opacity">
+        <div className="absolute top-4 right-4 z-10 opacity-0 group-hover:opacity-100 transition-opacity flex items-center gap-2">
+          {viewMode === 'spectrogram' && (
+            <div className="flex items-center gap-1 bg-slate-800 p-1 rounded-md border border-slate-700 shadow-lg">
+              <select
+                value={spectrogramSettings.scale}
+                onChange={(e) => setSpectrogramSettings(prev => ({ ...prev, scale: e.target.value as FrequencyScale }))}
+                className="bg-transparent text-[10px] text-slate-200 outline-none cursor-pointer"
+                style={{ colorScheme: 'dark' }}
+                title="Frequency Scale"
+              >
+                <option value="log">Log</option>
+                <option value="linear">Linear</option>
+              </select>
+              <select
+                value={spectrogramSettings.fftSize}
+                onChange={(e) => setSpectrogramSettings(prev => ({ ...prev, fftSize: Number(e.target.value) }))}
+                className="bg-transparent text-[10px] text-slate-200 outline-none cursor-pointer"
+                style={{ colorScheme: 'dark' }}
+                title="FFT Size"
+              >
+                {FFT_SIZE_OPTIONS.map(size => (
+                  <option key={size} value={size}>{size}</option>
+                ))}
+              </select>
+              <select
+                value={spectrogramSettings.colorMap}
+                onChange={(e) => setSpectrogramSettings(prev => ({ ...prev, colorMap: e.target.value as ColorMapName }))}
+                className="bg-transparent text-[10px] text-slate-200 outline-none cursor-pointer"
+                style={{ colorScheme: 'dark' }}
+                title="Colour Map"
+              >
+                <option value="magma">Magma</option>
+                <option value="viridis">Viridis</option>
+                <option value="grayscale">Gray</option>
+              </select>
+            </div>
+          )}
+          <button
+            onClick={() => setViewMode(viewMode === 'waveform' ? 'spectrogram' : 'waveform')}
+            className="bg-slate-800 hover:bg-slate-700 text-white p-2 rounded-md flex items-center gap-2 text-xs shadow-lg border border-slate-700"
+            title={viewMode === 'waveform' ? "Show Spectrogram" : "Show Waveform"}
+          >
+            {viewMode === 'waveform' ? <Rainbow size={14} /> : <AudioWaveform size={14} />}
+          </button>
           <label className="cursor-pointer bg-slate-800 hover:bg-slate-700 text-white p-2 rounded-md flex items-center gap-2 text-xs shadow-lg border border-slate-700">
             <Upload size={14} />
             <span>Replace</span>
@@ -193,8 +275,39 @@ export const TrackDeck: React.FC<TrackDeckProps> = ({
         </div>
       )}
 
-      {/* WaveSurfer Container */}
-      <div ref={containerRef} className="w-full h-full flex items-center" />
+      {/* WaveSurfer Container (kept mounted for decoding and playback, never shown) */}
+      <div ref={containerRef} className="w-full h-full flex items-center invisible" />
+
+      {/* Waveform View */}
+      {viewMode === 'waveform' && track && (
+        <DeckWaveform 
+          buffer={decoded}
+          ws={wsRef.current as unknown as WaveSurferInstance | null}
+          view={deckView}
+          color={color}
+          className="absolute inset-0 z-0"
+        />
+      )}
+
+      {/* Spectrogram View */}
+      {viewMode === 'spectrogram' && track && (
+        <Spectrogram 
+          buffer={decoded}
+          ws={wsRef.current as unknown as WaveSurferInstance | null}
+          settings={spectrogramSettings}
+          view={deckView}
+          className="absolute inset-0 z-0"
+        />
+      )}
+
+      {/* Beat Grid */}
+      {track && beats && beats.length > 0 && (
+        <BeatGridOverlay 
+          beats={beats}
+          view={deckView}
+          className="absolute inset-0 z-0 pointer-events-none"
+        />
+      )}
       
     </div>
   );
@@ -0,0 +1,135 @@
+import React, { useEffect, useRef } from 'react';
+import { WaveSurferInstance } from '../types';
+import { getPlayheadWindow } from '../utils/audioAnalysis';
+
+export type ScopeMode = 'ms' | 'lissajous';
+export type ScopePersistence = 'off' | 'short' | 'long';
+
+interface VectorscopeProps {
+  ws: WaveSurferInstance | null;
+  color: string;
+  mode?: ScopeMode;
+  persistence?: ScopePersistence;
+  className?: string;
+}
+
+// Alpha of the background wash applied each frame (lower = longer trails)
+const FADE_ALPHA: Record<ScopePersistence, number> = {
+  off: 1,
+  short: 0.35,
+  long: 0.08,
+};
+
+const BG_COLOR = '2, 6, 23'; // slate-950
+
+export const Vectorscope: React.FC<VectorscopeProps> = ({ ws, color, mode = 'ms', persistence = 'short', className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rafRef = useRef<number>(0);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // High DPI scaling
+    const dpr = window.devicePixelRatio || 1;
+    const rect = canvas.getBoundingClientRect();
+    canvas.width = rect.width * dpr;
+    canvas.height = rect.height * dpr;
+    ctx.scale(dpr, dpr);
+
+    const width = rect.width;
+    const height = rect.height;
+    const readoutHeight = 12;
+    const size = Math.min(width, height - readoutHeight);
+    const cx = width / 2;
+    const cy = size / 2;
+    const radius = size / 2 - 2;
+
+    ctx.fillStyle = `rgb(${BG_COLOR})`;
+    ctx.fillRect(0, 0, width, height);
+
+    // Balance in dB (positive = right heavier)
+    let balanceVal = 0;
+
+    const draw = () => {
+      // 1. Persistence: fade previous frame instead of clearing
+      ctx.fillStyle = `rgba(${BG_COLOR}, ${FADE_ALPHA[persistence]})`;
+      ctx.fillRect(0, 0, width, size);
+
+      // 2. Graticule
+      ctx.strokeStyle = '#1e293b';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+      if (mode === 'ms') {
+        // Vertical = Mono (M), Horizontal = Side (S), diagonals = hard L / R
+        ctx.moveTo(cx, cy - radius); ctx.lineTo(cx, cy + radius);
+        ctx.moveTo(cx - radius, cy); ctx.lineTo(cx + radius, cy);
+      } else {
+        // X = Left, Y = Right; mono falls on the rising diagonal
+        const d = radius * Math.SQRT1_2;
+        ctx.moveTo(cx - d, cy + d); ctx.lineTo(cx + d, cy - d);
+        ctx.moveTo(cx - d, cy - d); ctx.lineTo(cx + d, cy + d);
+      }
+      ctx.stroke();
+
+      // 3. Plot the same 50ms playhead window the meter uses
+      const win = getPlayheadWindow(ws);
+      let currentBalance = 0;
+
+      if (win) {
+        const { left, right } = win;
+        let sumSqL = 0;
+        let sumSqR = 0;
+
+        ctx.fillStyle = color;
+        for (let i = 0; i < left.length; i++) {
+          const l = left[i];
+          const r = right[i];
+          sumSqL += l * l;
+          sumSqR += r * r;
+
+          let x: number;
+          let y: number;
+          if (mode === 'ms') {
+            x = (r - l) * Math.SQRT1_2;
+            y = (l + r) * Math.SQRT1_2;
+          } else {
+            x = l;
+            y = r;
+          }
+          ctx.fillRect(cx + x * radius, cy - y * radius, 1, 1);
+        }
+
+        if (sumSqL > 1e-10 && sumSqR > 1e-10) {
+          currentBalance = 10 * Math.log10(sumSqR / sumSqL);
+        }
+      }
+
+      balanceVal = (balanceVal * 0.9) + (currentBalance * 0.1);
+
+      // 4. Balance readout
+      ctx.fillStyle = `rgb(${BG_COLOR})`;
+      ctx.fillRect(0, size, width, height - size);
+      ctx.font = '9px monospace';
+      ctx.textAlign = 'center';
+      ctx.fillStyle = Math.abs(balanceVal) > 1 ? '#eab308' : '#94a3b8';
+      const label = Math.abs(balanceVal) < 0.05
+        ? 'BAL C'
+        : `BAL ${balanceVal > 0 ? 'R' : 'L'} ${Math.abs(balanceVal).toFixed(1)}dB`;
+      ctx.fillText(label, cx, size + 10);
+      ctx.textAlign = 'start';
+
+      rafRef.current = requestAnimationFrame(draw);
+    };
+
+    draw();
+
+    return () => cancelAnimationFrame(rafRef.current);
+  }, [ws, color, mode, persistence]);
+
+  return <canvas ref={canvasRef} className={className} />;
+};
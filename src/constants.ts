@@ -1,4 +1,21 @@
 export const COLOR_TRACK_A = '#22d3ee'; // tailwind cyan-400
 export const COLOR_TRACK_B = '#e879f9'; // tailwind fuchsia-400
+export const COLOR_TRACK_C = '#a855f7'; // tailwind purple-500 (BPM Analyzer deck)
+export const COLOR_SLOT_IDLE = '#64748b'; // tailwind slate-500 (comparator slot not routed to A/B)
+export const COLOR_RESIDUAL = '#fb7185'; // tailwind rose-400
 export const COLOR_WAVE_PROGRESS = '#ffffff'; 
+export const COLOR_BEAT_GRID = '#cbd5e1'; // tailwind slate-300
 export const HEIGHT_WAVEFORM = 128;
+
+// WaveSurfer decodes at 8kHz by default (display only). Comparator decks need
+// the full-rate signal for sample-accurate alignment and null testing.
+export const SAMPLE_RATE_COMPARATOR = 48000;
+// The Analyzer deck's decoded data feeds BPM, beat and key detection, whose
+// onset hop and spectral bands (hi-hats up to 16kHz) assume the full band.
+export const SAMPLE_RATE_ANALYZER = 44100;
+
+// Number keys 1-9 select comparator slots
+export const MAX_COMPARATOR_SLOTS = 9;
+
+// Deepest timeline zoom: this many comparator-rate samples across the view
+export const MIN_VIEW_SECONDS = 64 / SAMPLE_RATE_COMPARATOR;
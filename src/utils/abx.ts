@@ -0,0 +1,61 @@
+import { AbxSession, AbxSummary, DeckRole } from '../types';
+
+const randomRole = (): DeckRole => Math.random() < 0.5 ? 'A' : 'B';
+
+/**
+ * Starts a new session with a random X for the first trial.
+ */
+export function createAbxSession(trackA: string, trackB: string): AbxSession {
+  return {
+    trackA,
+    trackB,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    x: randomRole(),
+    trials: [],
+  };
+}
+
+/**
+ * Logs an answer for the current trial and draws a fresh X for the next one.
+ */
+export function recordAbxAnswer(session: AbxSession, answer: DeckRole): AbxSession {
+  if (session.finishedAt) return session;
+  return {
+    ...session,
+    x: randomRole(),
+    trials: [
+      ...session.trials,
+      {
+        index: session.trials.length + 1,
+        x: session.x,
+        answer,
+        correct: answer === session.x,
+        answeredAt: new Date().toISOString(),
+      },
+    ],
+  };
+}
+
+/**
+ * One-sided binomial p-value: probability of at least `correct` hits in
+ * `total` fair coin flips. Summed in log space so long sessions don't underflow.
+ */
+export function binomialPValue(correct: number, total: number): number {
+  if (total === 0) return 1;
+
+  const logFactorial = new Float64Array(total + 1);
+  for (let i = 2; i <= total; i++) logFactorial[i] = logFactorial[i - 1] + Math.log(i);
+
+  let p = 0;
+  for (let k = correct; k <= total; k++) {
+    p += Math.exp(logFactorial[total] - logFactorial[k] - logFactorial[total - k] - total * Math.LN2);
+  }
+  return Math.min(1, p);
+}
+
+export function summarizeAbx(session: AbxSession): AbxSummary {
+  const total = session.trials.length;
+  const correct = session.trials.filter(t => t.correct).length;
+  return { total, correct, pValue: binomialPValue(correct, total) };
+}
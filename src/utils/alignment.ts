@@ -0,0 +1,137 @@
+import { TrackAlignment } from '../types';
+import { crossCorrelate } from './fft';
+
+// Coarse search runs on decimated audio to keep the FFT size manageable
+const COARSE_DECIMATION = 8;
+// Only the opening section is needed to lock the offset between two masters
+const ANALYSIS_SECONDS = 30;
+// Largest offset we search for in either direction
+const MAX_LAG_SECONDS = 5;
+// Length of the full-rate window used to refine the coarse lag
+const REFINE_WINDOW = 32768;
+
+/**
+ * Mixes all channels to mono while averaging `factor` consecutive samples.
+ * The box average doubles as a crude anti-alias filter for the decimation.
+ */
+function decimateToMono(buffer: AudioBuffer, factor: number, maxSamples: number): Float32Array {
+  const numChannels = buffer.numberOfChannels;
+  const len = Math.min(buffer.length, maxSamples);
+  const outLen = Math.floor(len / factor);
+  const out = new Float32Array(outLen);
+
+  for (let c = 0; c < numChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < outLen; i++) {
+      let sum = 0;
+      const start = i * factor;
+      for (let j = start; j < start + factor; j++) {
+        sum += data[j];
+      }
+      out[i] += sum / (factor * numChannels);
+    }
+  }
+  return out;
+}
+
+/**
+ * Direct (time-domain) correlation of mono mixdowns at a single lag.
+ * Only used for the handful of lags around the coarse estimate.
+ */
+function correlateAt(a: AudioBuffer, b: AudioBuffer, startA: number, lag: number, length: number): number {
+  const channels = Math.min(a.numberOfChannels, b.numberOfChannels);
+  let sum = 0;
+  for (let c = 0; c < channels; c++) {
+    const dataA = a.getChannelData(c);
+    const dataB = b.getChannelData(c);
+    for (let i = 0; i < length; i++) {
+      sum += dataA[startA + i] * dataB[startA + lag + i];
+    }
+  }
+  return sum;
+}
+
+/**
+ * Estimates the time offset between two renditions of the same audio.
+ * 1. Coarse: FFT cross-correlation of decimated mono mixdowns.
+ * 2. Fine: direct correlation at full rate around the coarse peak, giving single-sample accuracy.
+ * Both buffers must share a sample rate.
+ */
+export function estimateAlignment(bufA: AudioBuffer, bufB: AudioBuffer): TrackAlignment | null {
+  if (bufA.sampleRate !== bufB.sampleRate) return null;
+  const sampleRate = bufA.sampleRate;
+
+  const maxSamples = Math.floor(ANALYSIS_SECONDS * sampleRate);
+  const monoA = decimateToMono(bufA, COARSE_DECIMATION, maxSamples);
+  const monoB = decimateToMono(bufB, COARSE_DECIMATION, maxSamples);
+  if (monoA.length === 0 || monoB.length === 0) return null;
+
+  // 1. Coarse search
+  const maxLag = Math.min(
+    Math.floor((MAX_LAG_SECONDS * sampleRate) / COARSE_DECIMATION),
+    Math.max(monoA.length, monoB.length) - 1
+  );
+  const corr = crossCorrelate(monoA, monoB, maxLag);
+
+  let bestIndex = maxLag;
+  let bestValue = -Infinity;
+  for (let i = 0; i < corr.length; i++) {
+    if (corr[i] > bestValue) {
+      bestValue = corr[i];
+      bestIndex = i;
+    }
+  }
+  const coarseLag = (bestIndex - maxLag) * COARSE_DECIMATION;
+
+  let energyA = 0;
+  let energyB = 0;
+  for (let i = 0; i < monoA.length; i++) energyA += monoA[i] * monoA[i];
+  for (let i = 0; i < monoB.length; i++) energyB += monoB[i] * monoB[i];
+  const norm = Math.sqrt(energyA * energyB);
+  const confidence = norm > 0 ? Math.max(0, Math.min(1, bestValue / norm)) : 0;
+
+  // 2. Refine at full rate within +/- one decimation step
+  const radius = COARSE_DECIMATION;
+  const minLag = coarseLag - radius;
+  const maxRefineLag = coarseLag + radius;
+
+  // Pick a window where both A[start] and B[start + lag] stay in range for every candidate lag
+  const startA = Math.max(0, -minLag);
+  const length = Math.min(
+    REFINE_WINDOW,
+    bufA.length - startA,
+    bufB.length - (startA + maxRefineLag)
+  );
+
+  let lagSamples = coarseLag;
+  if (length > 0) {
+    // Center the window in the overlapping region for a more representative match
+    const overlapEnd = Math.min(bufA.length, bufB.length - maxRefineLag);
+    const centeredStart = Math.max(startA, Math.floor((startA + overlapEnd - length) / 2));
+
+    let bestFine = -Infinity;
+    for (let lag = minLag; lag <= maxRefineLag; lag++) {
+      const value = correlateAt(bufA, bufB, centeredStart, lag, length);
+      if (value > bestFine) {
+        bestFine = value;
+        lagSamples = lag;
+      }
+    }
+  }
+
+  return { lagSamples, sampleRate, confidence };
+}
+
+/**
+ * Converts an alignment into per-track playback offsets (seconds).
+ * Offsets are never negative: the track whose content starts later is skipped ahead.
+ * Timeline time t maps to position (t + offset) inside each track.
+ */
+export function alignmentToOffsets(alignment: TrackAlignment | null): { A: number; B: number } {
+  if (!alignment) return { A: 0, B: 0 };
+  const seconds = alignment.lagSamples / alignment.sampleRate;
+  return {
+    A: Math.max(0, -seconds),
+    B: Math.max(0, seconds),
+  };
+}
@@ -1,39 +1,14 @@
 
+import { measureLoudness } from './loudness';
+import { WaveSurferInstance } from '../types';
+
 /**
- * Calculates the approximate RMS loudness of an AudioBuffer in dB.
- * Scans all channels and averages the power.
- * Uses a stride to ensure performance on long tracks.
+ * Calculates the integrated loudness of an AudioBuffer in LUFS (ITU-R BS.1770-4).
+ * K-weighted, 400ms blocks with absolute (-70 LUFS) and relative (-10 LU) gating.
+ * Returns -100 for silence.
  */
 export function calculateTrackLoudness(buffer: AudioBuffer): number {
-    const numChannels = buffer.numberOfChannels;
-    const len = buffer.length;
-    // Analyze a significant portion but skip samples for performance (stride).
-    // Stride of 1000 on 44.1k = every ~22ms sampled. Sufficient for global RMS.
-    const stride = 1000; 
-    
-    let sumSq = 0;
-
-    for (let c = 0; c < numChannels; c++) {
-        const data = buffer.getChannelData(c);
-        let chanSum = 0;
-        let count = 0;
-        for (let i = 0; i < len; i += stride) {
-            chanSum += data[i] * data[i];
-            count++;
-        }
-        if (count > 0) {
-            sumSq += (chanSum / count);
-        }
-    }
-    
-    // Average power across channels
-    const avgPower = sumSq / numChannels;
-    const rms = Math.sqrt(avgPower);
-    
-    // Floor at -100dB to handle silence
-    if (rms < 0.00001) return -100;
-    
-    return 20 * Math.log10(rms);
+    return measureLoudness(buffer).integrated;
 }
 
 // Standard Audio Context - Singleton lazy init
@@ -51,3 +26,48 @@ export const decodeAudioData = async (file: File): Promise<AudioBuffer> => {
   const arrayBuffer = await file.arrayBuffer();
   return await ctx.decodeAudioData(arrayBuffer);
 };
+
+// Playheads of decks the transport is playing (see setDeckDisplayTime)
+const deckDisplayTimes = new WeakMap<WaveSurferInstance, number>();
+
+/**
+ * Moves the playhead of a deck played by the transport, for display only:
+ * 'timeupdate' listeners follow it and getDeckTime() returns it, but its
+ * silent media element isn't seeked (that would happen on every frame).
+ * null hands the position back to the media element.
+ */
+export function setDeckDisplayTime(ws: WaveSurferInstance, time: number | null): void {
+  if (time === null) {
+    deckDisplayTimes.delete(ws);
+    return;
+  }
+  deckDisplayTimes.set(ws, time);
+  // Same event WaveSurfer's setTime emits (emit is protected in its typings)
+  (ws as unknown as { emit: (event: string, time: number) => void }).emit('timeupdate', time);
+}
+
+/** Playhead of an instance, including decks played by the transport. */
+export const getDeckTime = (ws: WaveSurferInstance) => deckDisplayTimes.get(ws) ?? ws.getCurrentTime();
+
+/**
+ * Returns the stereo window starting at the playhead of a playing instance.
+ * Mono files return the same data for both sides. Shared by the meters and scopes.
+ */
+export function getPlayheadWindow(
+  ws: WaveSurferInstance | null,
+  seconds: number = 0.05
+): { left: Float32Array; right: Float32Array; buffer: AudioBuffer; startSample: number; endSample: number } | null {
+  if (!ws || !(ws.isPlaying() || deckDisplayTimes.has(ws))) return null;
+  const buffer = ws.getDecodedData();
+  if (!buffer) return null;
+
+  const startSample = Math.floor(getDeckTime(ws) * buffer.sampleRate);
+  const endSample = startSample + Math.floor(seconds * buffer.sampleRate);
+  if (endSample >= buffer.length) return null;
+
+  const left = buffer.getChannelData(0).subarray(startSample, endSample);
+  const right = buffer.numberOfChannels > 1
+    ? buffer.getChannelData(1).subarray(startSample, endSample)
+    : left;
+  return { left, right, buffer, startSample, endSample };
+}
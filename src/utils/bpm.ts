@@ -1,11 +1,32 @@
 
-import { BpmPoint } from '../types';
+import { BpmPoint, BpmCandidate, Beat, BpmProfile } from '../types';
+import { fft } from './fft';
+
+// Correlation peaks offered per window (including the detected one), on top of half/double time
+const MAX_PEAK_CANDIDATES = 3;
+// Candidates closer than this (relative) are the same tempo
+const CANDIDATE_TOLERANCE = 0.03;
+// Half/double time candidates are kept inside a plausible tempo range
+const MIN_CANDIDATE_BPM = 40;
+const MAX_CANDIDATE_BPM = 240;
+// Onset periodicity at which a detection counts as fully confident
+const PERIODICITY_FOR_FULL_CONFIDENCE = 0.5;
+// Below this the BPM Log flags a window as unreliable
+export const LOW_BPM_CONFIDENCE = 0.35;
+
+interface BpmDetection {
+  bpm: number;
+  confidence: number; // 0-1
+  candidates: BpmCandidate[]; // Best first
+}
 
 /**
  * Filters the audio buffer using an OfflineAudioContext to isolate beat frequencies.
  * This is the expensive operation and should only be done once per track load.
+ * The multi-band profile keeps the whole spectrum (mono, rumble removed) for
+ * its spectral flux analysis.
  */
-export async function filterAudioBuffer(audioBuffer: AudioBuffer): Promise<{ data: Float32Array; sampleRate: number }> {
+export async function filterAudioBuffer(audioBuffer: AudioBuffer, profile: BpmProfile = 'lowpass'): Promise<{ data: Float32Array; sampleRate: number }> {
   // Use OfflineAudioContext to process audio faster than real-time
   const offlineCtx = new OfflineAudioContext(1, audioBuffer.length, audioBuffer.sampleRate);
   const source = offlineCtx.createBufferSource();
@@ -27,8 +48,12 @@ export async function filterAudioBuffer(audioBuffer: AudioBuffer): Promise<{ dat
   lowpass.Q.value = 1;
   
   source.connect(highpass);
-  highpass.connect(lowpass);
-  lowpass.connect(offlineCtx.destination);
+  if (profile === 'lowpass') {
+    highpass.connect(lowpass);
+    lowpass.connect(offlineCtx.destination);
+  } else {
+    highpass.connect(offlineCtx.destination);
+  }
   source.start(0);
   
   const renderedBuffer = await offlineCtx.startRendering();
@@ -38,146 +63,527 @@ export async function filterAudioBuffer(audioBuffer: AudioBuffer): Promise<{ dat
   };
 }
 
+// Onset envelope hop: ~172Hz control rate at 44.1kHz (44100 / 256)
+const TEMPOGRAM_HOP = 256;
+// Lagged products are summed per block of envelope frames (memory vs. edge work per window)
+const TEMPOGRAM_BLOCK = 32;
+// BPM range searched per window: 55 to 190 (Wider range to catch slow Hip Hop or fast DnB)
+const MIN_BPM = 55;
+const MAX_BPM = 190;
+
+// Multi-band profile: spectral flux per band (Hz), from kick/sub up to hats/air.
+// Bands above Nyquist are dropped, the top one is cut at Nyquist.
+const FLUX_BANDS: [number, number][] = [[30, 150], [150, 400], [400, 2000], [2000, 6000], [6000, 16000]];
+const FLUX_FRAME = 1024;
+// Log magnitude compression, so flux measures level ratios and quiet bands still count
+const FLUX_COMPRESSION = 1000;
+// Share of the tempogram build progress taken by the spectral flux pass
+const FLUX_PROGRESS = 0.7;
+
 /**
- * Analyzes BPM from pre-filtered PCM data.
- * This is fast and can be re-run with different intervals instantly.
+ * Onset envelope of a whole track plus running sums of its lagged products,
+ * so the autocorrelation of any window at any tempo lag takes a couple of
+ * lookups instead of a pass over the window. Built once per track; every
+ * interval setting slices its windows from it.
  */
-export function analyzeBpmFromData(data: Float32Array, sampleRate: number, duration: number, interval: number = 2): BpmPoint[] {
-  const points: BpmPoint[] = [];
-  
+export interface Tempogram {
+  profile: BpmProfile;
+  rate: number; // Envelope frames per second
+  onset: Float32Array;
+  minLag: number; // Lags covered by `lagSums` (frames)
+  maxLag: number;
+  blockCount: number;
+  lagSums: Float64Array; // Row per lag: sum of onset[i] * onset[i + lag] for i before each block
+  onsetSums: Float64Array; // Prefix sums of onset
+  squareSums: Float64Array; // Prefix sums of onset^2
+}
+
+/**
+ * Low-pass profile onset: RMS envelope downsampled by the hop, then its
+ * half-wave rectified first difference.
+ */
+function rmsOnset(data: Float32Array, length: number): Float32Array {
+  // 1. RMS Envelope
+  const envelope = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+      let sumSq = 0;
+      const start = i * TEMPOGRAM_HOP;
+      const end = Math.min(start + TEMPOGRAM_HOP, data.length);
+      for (let j = start; j < end; j++) {
+          sumSq += data[j] * data[j];
+      }
+      envelope[i] = Math.sqrt(sumSq / (end - start));
+  }
+
+  // 2. Onset Envelope (Spectral Flux / Difference)
+  // This is CRITICAL. It differentiates the signal, turning "hills" of volume
+  // into "spikes" of change. This sharpens the beat significantly.
+  const onset = new Float32Array(length);
+  for (let i = 1; i < length; i++) {
+      // Half-wave rectified first difference
+      onset[i] = Math.max(0, envelope[i] - envelope[i-1]);
+  }
+  return onset;
+}
+
+/**
+ * Multi-band profile onset: spectral flux (rise in log magnitude) summed per
+ * band, one frame per hop. Each band is normalised by its own mean before the
+ * bands are added up, so hi-hats, pads or strings drive the envelope as much
+ * as a kick drum would.
+ */
+function multiBandOnset(data: Float32Array, sampleRate: number, length: number, onProgress?: (progress: number) => void): Float32Array {
+  const bins = FLUX_FRAME / 2;
+  const nyquist = sampleRate / 2;
+  const bands = FLUX_BANDS.filter(([low]) => low < nyquist);
+
+  // Band index per FFT bin (-1 = outside every band)
+  const bandOfBin = new Int8Array(bins).fill(-1);
+  for (let k = 1; k < bins; k++) {
+      const freq = (k * sampleRate) / FLUX_FRAME;
+      bandOfBin[k] = bands.findIndex(([low, high]) => freq >= low && freq < Math.min(high, nyquist));
+  }
+
+  const window = new Float64Array(FLUX_FRAME);
+  for (let i = 0; i < FLUX_FRAME; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FLUX_FRAME);
+
+  const flux = bands.map(() => new Float32Array(length));
+  const re = new Float64Array(FLUX_FRAME);
+  const im = new Float64Array(FLUX_FRAME);
+  let previous = new Float64Array(bins);
+  let current = new Float64Array(bins);
+  const progressEvery = Math.max(1, Math.floor(length / 100));
+
+  for (let i = 0; i < length; i++) {
+      // Frame centred on the hop, like the RMS envelope
+      const offset = i * TEMPOGRAM_HOP + TEMPOGRAM_HOP / 2 - FLUX_FRAME / 2;
+      for (let j = 0; j < FLUX_FRAME; j++) {
+          const index = offset + j;
+          re[j] = index >= 0 && index < data.length ? data[index] * window[j] : 0;
+          im[j] = 0;
+      }
+      fft(re, im);
+
+      for (let k = 1; k < bins; k++) {
+          current[k] = Math.log1p(FLUX_COMPRESSION * Math.hypot(re[k], im[k]));
+          const band = bandOfBin[k];
+          if (i > 0 && band >= 0) {
+              const rise = current[k] - previous[k];
+              if (rise > 0) flux[band][i] += rise;
+          }
+      }
+      [previous, current] = [current, previous];
+
+      if (i % progressEvery === 0) onProgress?.(i / length);
+  }
+
+  const onset = new Float32Array(length);
+  for (const bandFlux of flux) {
+      let mean = 0;
+      for (let i = 0; i < length; i++) mean += bandFlux[i];
+      mean /= length;
+      if (mean <= 0) continue;
+      for (let i = 0; i < length; i++) onset[i] += bandFlux[i] / mean;
+  }
+  return onset;
+}
+
+export function buildTempogram(
+  data: Float32Array,
+  sampleRate: number,
+  profile: BpmProfile = 'lowpass',
+  onProgress?: (progress: number) => void
+): Tempogram {
+  const rate = sampleRate / TEMPOGRAM_HOP;
+  const length = Math.ceil(data.length / TEMPOGRAM_HOP);
+
+  // 1-2. Onset envelope, one frame per hop
+  const fluxShare = profile === 'multiband' ? FLUX_PROGRESS : 0;
+  const onset = profile === 'multiband'
+    ? multiBandOnset(data, sampleRate, length, p => onProgress?.(p * fluxShare))
+    : rmsOnset(data, length);
+
+  const onsetSums = new Float64Array(length + 1);
+  const squareSums = new Float64Array(length + 1);
+  for (let i = 0; i < length; i++) {
+      onsetSums[i + 1] = onsetSums[i] + onset[i];
+      squareSums[i + 1] = squareSums[i] + onset[i] * onset[i];
+  }
+
+  // 3. Lagged products, summed per block
+  // Covers the search range (plus one lag either side for interpolation) and
+  // the half/double time candidates.
+  const minLag = Math.max(1, Math.min(Math.floor((60 / MAX_BPM) * rate) - 1, Math.floor((60 / MAX_CANDIDATE_BPM) * rate)));
+  const maxLag = Math.max(Math.floor((60 / MIN_BPM) * rate) + 1, Math.ceil((60 / MIN_CANDIDATE_BPM) * rate));
+  const blockCount = Math.ceil(length / TEMPOGRAM_BLOCK);
+  const lagSums = new Float64Array((maxLag - minLag + 1) * (blockCount + 1));
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+      const row = (lag - minLag) * (blockCount + 1);
+      let sum = 0;
+      for (let block = 0; block < blockCount; block++) {
+          const end = Math.min((block + 1) * TEMPOGRAM_BLOCK, length - lag);
+          for (let i = block * TEMPOGRAM_BLOCK; i < end; i++) {
+              sum += onset[i] * onset[i + lag];
+          }
+          lagSums[row + block + 1] = sum;
+      }
+      onProgress?.(fluxShare + (1 - fluxShare) * (lag - minLag + 1) / (maxLag - minLag + 1));
+  }
+
+  return { profile, rate, onset, minLag, maxLag, blockCount, lagSums, onsetSums, squareSums };
+}
+
+const tempogramCache = new WeakMap<Float32Array, Tempogram>();
+
+/** Tempogram of filtered PCM data, built on first use. */
+export function getTempogram(
+  data: Float32Array,
+  sampleRate: number,
+  profile: BpmProfile = 'lowpass',
+  onProgress?: (progress: number) => void
+): Tempogram {
+  let tempogram = tempogramCache.get(data);
+  if (!tempogram || tempogram.profile !== profile || tempogram.rate !== sampleRate / TEMPOGRAM_HOP) {
+    tempogram = buildTempogram(data, sampleRate, profile, onProgress);
+    tempogramCache.set(data, tempogram);
+  }
+  return tempogram;
+}
+
+/**
+ * Autocorrelation of the onset envelope frames [from, to) at `lag`:
+ * sum of onset[i] * onset[i + lag] with both inside the window.
+ */
+function windowCorrelation(tempogram: Tempogram, lag: number, from: number, to: number): number {
+  const { onset, minLag, blockCount, lagSums } = tempogram;
+  const end = to - lag;
+  if (end <= from) return 0;
+
+  const direct = (a: number, b: number) => {
+      let s = 0;
+      for (let i = a; i < b; i++) s += onset[i] * onset[i + lag];
+      return s;
+  };
+
+  const firstBlock = Math.ceil(from / TEMPOGRAM_BLOCK);
+  const lastBlock = Math.floor(end / TEMPOGRAM_BLOCK);
+  if (firstBlock >= lastBlock) return direct(from, end);
+
+  const row = (lag - minLag) * (blockCount + 1);
+  return lagSums[row + lastBlock] - lagSums[row + firstBlock]
+      + direct(from, firstBlock * TEMPOGRAM_BLOCK)
+      + direct(lastBlock * TEMPOGRAM_BLOCK, end);
+}
+
+/**
+ * Analysis windows (seconds) for an interval setting, shared by the BPM and
+ * key logs so their rows line up. Windows shorter than 5s are too short to be
+ * reliable and are left out.
+ */
+export function analysisWindows(duration: number, interval: number): { start: number; end: number }[] {
+  const windows: { start: number; end: number }[] = [];
+
   // Logic for Auto Interval (0) -> default to 30s steps
   const step = interval === 0 ? 30 : interval;
 
   // Force a minimum window size of 30s for stability.
   // This ensures that even short interval checks look at enough context.
   const windowSize = Math.max(step, 30); 
+
+  for (let start = 0; start < duration; start += step) {
+    const end = Math.min(start + windowSize, duration);
+    if (end - start >= 5) windows.push({ start, end });
+  }
+  return windows;
+}
+
+/**
+ * Analyzes BPM from pre-filtered PCM data.
+ * Windows are sliced from the track's tempogram (see `getTempogram`), so
+ * after the first run this is fast and can be re-run with different
+ * intervals instantly.
+ * `onPoint` reports each point as its window completes, with the fraction of
+ * the track done (used by the worker to fill the BPM Log incrementally).
+ */
+export function analyzeBpmFromData(
+  data: Float32Array,
+  sampleRate: number,
+  duration: number,
+  interval: number = 2,
+  profile: BpmProfile = 'lowpass',
+  onPoint?: (point: BpmPoint, progress: number) => void
+): BpmPoint[] {
+  const tempogram = getTempogram(data, sampleRate, profile);
+  const points: BpmPoint[] = [];
   
-  for (let startTime = 0; startTime < duration; startTime += step) {
+  const windows = analysisWindows(duration, interval);
+  for (let index = 0; index < windows.length; index++) {
+    const { start: startTime, end: endTime } = windows[index];
     const startSample = Math.floor(startTime * sampleRate);
-    const endSample = Math.floor(Math.min(startTime + windowSize, duration) * sampleRate);
+    const endSample = Math.min(Math.floor(endTime * sampleRate), data.length);
     
-    // Skip if segment is too short to be reliable
-    if (endSample - startSample < sampleRate * 5) continue;
+    const detection = detectBpmInWindow(
+      tempogram,
+      Math.floor(startSample / TEMPOGRAM_HOP),
+      Math.ceil(endSample / TEMPOGRAM_HOP)
+    );
     
-    const slice = data.slice(startSample, endSample);
-    const bpm = detectBpmInChunk(slice, sampleRate);
-    
-    if (bpm) {
+    if (detection) {
       points.push({
         time: startTime,
-        bpm: bpm
+        ...detection
       });
     } else if (points.length > 0) {
-        // Carry forward previous if detection fails
+        // Carry forward previous if detection fails, flagged with no confidence
+        const previous = points[points.length - 1];
         points.push({
             time: startTime,
-            bpm: points[points.length - 1].bpm
+            bpm: previous.bpm,
+            confidence: 0,
+            candidates: previous.candidates,
+            carried: true
         });
     }
+
+    if (points.length > 0 && points[points.length - 1].time === startTime) {
+        onPoint?.(points[points.length - 1], (index + 1) / windows.length);
+    }
   }
   
   return points;
 }
 
 /**
- * Robust BPM detection using Autocorrelation of the ONSET Envelope.
+ * Robust BPM detection using Autocorrelation of the ONSET Envelope, for the
+ * tempogram frames [from, to).
  * - Uses Onset (Flux) instead of raw RMS to handle sustain/bass muddiness.
  * - Captures Snare info for better backbeat locking.
  * - Applies perceptual weighting to resolve harmonics.
  */
-function detectBpmInChunk(data: Float32Array, sampleRate: number): number | null {
-  // 1. Downsample
-  // Target ~172Hz control rate (44100 / 256)
-  const downsampleRatio = 256; 
-  const envelopeRate = sampleRate / downsampleRatio;
-  const envelopeLength = Math.ceil(data.length / downsampleRatio);
-  
-  // 2. Compute RMS Envelope
-  const envelope = new Float32Array(envelopeLength);
-  for (let i = 0; i < envelopeLength; i++) {
-      let sumSq = 0;
-      const start = i * downsampleRatio;
-      const end = Math.min(start + downsampleRatio, data.length);
-      for (let j = start; j < end; j++) {
-          sumSq += data[j] * data[j];
-      }
-      envelope[i] = Math.sqrt(sumSq / (end - start));
-  }
-
-  // 3. Compute Onset Envelope (Spectral Flux / Difference)
-  // This is CRITICAL. It differentiates the signal, turning "hills" of volume
-  // into "spikes" of change. This sharpens the beat significantly.
-  const onset = new Float32Array(envelopeLength);
-  for (let i = 1; i < envelopeLength; i++) {
-      // Half-wave rectified first difference
-      const diff = envelope[i] - envelope[i-1];
-      onset[i] = Math.max(0, diff); 
-  }
+function detectBpmInWindow(tempogram: Tempogram, from: number, to: number): BpmDetection | null {
+  const envelopeRate = tempogram.rate;
+  const envelopeLength = to - from;
 
   // 4. Autocorrelation
-  // BPM range: 55 to 190 (Wider range to catch slow Hip Hop or fast DnB)
-  const minBpm = 55;
-  const maxBpm = 190;
-  
-  const minLag = Math.floor((60 / maxBpm) * envelopeRate);
-  const maxLag = Math.floor((60 / minBpm) * envelopeRate);
+  const minLag = Math.floor((60 / MAX_BPM) * envelopeRate);
+  const maxLag = Math.floor((60 / MIN_BPM) * envelopeRate);
+
+  // Helper to get raw correlation at a specific lag
+  const getCorrAt = (l: number) => windowCorrelation(tempogram, l, from, to);
+
+  // WEIGHTING:
+  // Gaussian centered at 110 BPM.
+  // Sigma increased to 0.6 (was 0.5) to be slightly less aggressive,
+  // allowing 90-100 BPM tracks to compete better against 120 BPM artifacts.
+  // 110 is a good "Pop Center".
+  const tempoWeight = (bpm: number) => Math.exp( -Math.pow(Math.log2(bpm / 110), 2) / 0.6 );
+
+  // Search lags (one either side too, for the interpolation and peak picking)
+  const corr = new Float64Array(maxLag + 2);
+  const weighted = new Float64Array(maxLag + 2);
+  for (let lag = Math.max(1, minLag - 1); lag <= maxLag + 1; lag++) {
+      corr[lag] = getCorrAt(lag);
+      weighted[lag] = corr[lag] * tempoWeight(60 * envelopeRate / lag);
+  }
 
   let maxWeightedCorr = -1;
   let bestLag = -1;
-
-  // Search lags
   for (let lag = minLag; lag <= maxLag; lag++) {
-      let sum = 0;
-      // Autocorrelate the ONSET signal
-      for (let i = 0; i < envelopeLength - lag; i++) {
-          sum += onset[i] * onset[i + lag];
-      }
-      
-      const bpm = 60 * envelopeRate / lag;
-      
-      // WEIGHTING:
-      // Gaussian centered at 110 BPM.
-      // Sigma increased to 0.6 (was 0.5) to be slightly less aggressive,
-      // allowing 90-100 BPM tracks to compete better against 120 BPM artifacts.
-      // 110 is a good "Pop Center".
-      const weight = Math.exp( -Math.pow(Math.log2(bpm / 110), 2) / 0.6 );
-      
-      const weightedSum = sum * weight;
-
-      if (weightedSum > maxWeightedCorr) {
-          maxWeightedCorr = weightedSum;
+      if (weighted[lag] > maxWeightedCorr) {
+          maxWeightedCorr = weighted[lag];
           bestLag = lag;
       }
   }
 
-  if (bestLag === -1) return null;
+  if (bestLag === -1 || maxWeightedCorr <= 0) return null;
 
   // 5. Parabolic Interpolation for decimal precision
-  let refinedLag = bestLag;
-  
-  // Helper to get raw correlation at a specific lag
-  const getCorrAt = (l: number) => {
-      let s = 0;
-      for (let i = 0; i < envelopeLength - l; i++) {
-          s += onset[i] * onset[i + l];
+  const refineBpm = (lag: number) => {
+      let refinedLag = lag;
+      const y1 = corr[lag - 1];
+      const y2 = corr[lag];
+      const y3 = corr[lag + 1];
+      const denominator = y1 - 2 * y2 + y3;
+      if (Math.abs(denominator) > 0.00001) {
+           refinedLag = lag + 0.5 * (y1 - y3) / denominator;
       }
-      return s;
+      // Clamp
+      return Math.min(MAX_BPM, Math.max(MIN_BPM, 60 * envelopeRate / refinedLag));
   };
 
-  const y1 = getCorrAt(bestLag - 1);
-  const y2 = getCorrAt(bestLag); 
-  const y3 = getCorrAt(bestLag + 1);
-  
-  const denominator = y1 - 2 * y2 + y3;
-  if (Math.abs(denominator) > 0.00001) {
-       refinedLag = bestLag + 0.5 * (y1 - y3) / denominator;
+  const detectedBpm = refineBpm(bestLag);
+
+  // 6. Alternative candidates
+  // Other peaks of the weighted correlation, strongest first, then half and
+  // double time of the winner (these may fall outside the search range).
+  const candidates: BpmCandidate[] = [{ bpm: detectedBpm, score: 1 }];
+  const isKnown = (bpm: number) => candidates.some(c => Math.abs(c.bpm / bpm - 1) < CANDIDATE_TOLERANCE);
+
+  const peakLags: number[] = [];
+  for (let lag = minLag; lag <= maxLag; lag++) {
+      if (lag !== bestLag && weighted[lag] > weighted[lag - 1] && weighted[lag] >= weighted[lag + 1]) {
+          peakLags.push(lag);
+      }
+  }
+  peakLags.sort((a, b) => weighted[b] - weighted[a]);
+  for (const lag of peakLags) {
+      if (candidates.length >= MAX_PEAK_CANDIDATES) break;
+      const bpm = refineBpm(lag);
+      if (!isKnown(bpm)) candidates.push({ bpm, score: weighted[lag] / maxWeightedCorr });
   }
 
-  let detectedBpm = 60 * envelopeRate / refinedLag;
+  for (const factor of [0.5, 2]) {
+      const bpm = detectedBpm * factor;
+      if (bpm < MIN_CANDIDATE_BPM || bpm > MAX_CANDIDATE_BPM || isKnown(bpm)) continue;
+      const lag = Math.round(60 * envelopeRate / bpm);
+      if (lag < tempogram.minLag || lag > tempogram.maxLag || lag >= envelopeLength) continue;
+      candidates.push({ bpm, score: Math.min(1, getCorrAt(lag) * tempoWeight(bpm) / maxWeightedCorr) });
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  // 7. Confidence
+  // How periodic the onsets are at the winning lag (mean-removed correlation,
+  // 1 = a perfect click track), scaled down when a runner-up comes close.
+  // Expanded so it comes straight from the tempogram's running sums.
+  const { onsetSums, squareSums } = tempogram;
+  const mean = (onsetSums[to] - onsetSums[from]) / envelopeLength;
+  const energy = squareSums[to] - squareSums[from] - envelopeLength * mean * mean;
+  const periodic = corr[bestLag]
+      - mean * (onsetSums[to - bestLag] - onsetSums[from] + onsetSums[to] - onsetSums[from + bestLag])
+      + mean * mean * (envelopeLength - bestLag);
+  const periodicity = energy > 0 ? Math.min(1, Math.max(0, periodic / energy) / PERIODICITY_FOR_FULL_CONFIDENCE) : 0;
+  const runnerUp = candidates[1]?.score ?? 0;
+  const confidence = periodicity * (0.5 + 0.5 * (1 - runnerUp));
+
+  return { bpm: detectedBpm, confidence, candidates };
+}
+
+/**
+ * One tempo for a whole track: the median of the detected (not carried)
+ * windows, which half/double time outliers can't drag around like a mean.
+ * Confidence is the windows' mean confidence, scaled by the share of windows
+ * that agree with the median.
+ */
+export function summarizeTempo(points: BpmPoint[]): { bpm: number; confidence: number } | null {
+  const detected = points.filter(p => !p.carried);
+  if (detected.length === 0) return null;
+
+  const sorted = detected.map(p => p.bpm).sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  const bpm = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+
+  const agreeing = detected.filter(p => Math.abs(p.bpm / bpm - 1) < CANDIDATE_TOLERANCE).length;
+  const meanConfidence = detected.reduce((sum, p) => sum + p.confidence, 0) / detected.length;
+  return { bpm, confidence: meanConfidence * (agreeing / detected.length) };
+}
+
+/**
+ * Points with the user's tempo choices applied: `choices` maps a point's time
+ * to the candidate picked for it, and `octaveLock` (a reference tempo) folds
+ * every tempo by factors of two into the octave around it.
+ */
+export function applyTempoChoices(points: BpmPoint[], choices: Record<number, number>, octaveLock: number | null): BpmPoint[] {
+  if (Object.keys(choices).length === 0 && !octaveLock) return points;
+  return points.map(point => {
+    let bpm = choices[point.time] ?? point.bpm;
+    if (octaveLock) {
+      while (bpm >= octaveLock * Math.SQRT2) bpm /= 2;
+      while (bpm < octaveLock / Math.SQRT2) bpm *= 2;
+    }
+    return bpm === point.bpm ? point : { ...point, bpm };
+  });
+}
+
+// How strongly beat spacing is held to the local tempo (Ellis 2007 "tightness")
+const BEAT_TIGHTNESS = 100;
+// Downbeat estimation assumes 4/4
+export const BEATS_PER_BAR = 4;
+
+/**
+ * Beat and downbeat positions from a tempogram's onset envelope (so they
+ * follow the detection profile) and the per-window BPM.
+ *
+ * 1. Beats: dynamic programming over the onset envelope (Ellis 2007). Every
+ *    frame's score is its onset strength plus the best score of a previous
+ *    beat, penalised by how far the gap strays from the local beat period.
+ *    Backtracking from the best final beat gives one continuous beat train,
+ *    so there are no phase jumps where the BPM windows meet.
+ * 2. Downbeats: assuming 4/4, the beat phase (mod 4) collecting the most onset
+ *    energy starts each bar. Beats before the first downbeat are a pickup (bar 0).
+ */
+export function trackBeats(onset: Float32Array, envelopeRate: number, points: BpmPoint[], duration: number): Beat[] {
+  const length = Math.min(onset.length, Math.ceil(duration * envelopeRate));
+  const valid = points.filter(p => p.bpm > 0);
+  if (length === 0 || valid.length === 0) return [];
+
+  // Normalise onsets so the tightness penalty has a consistent weight
+  let sumSq = 0;
+  for (let i = 0; i < length; i++) sumSq += onset[i] * onset[i];
+  const norm = Math.sqrt(sumSq / length) || 1;
+
+  // Local beat period (frames) from the window each frame falls in
+  const period = new Float32Array(length);
+  let w = 0;
+  for (let i = 0; i < length; i++) {
+    while (w + 1 < valid.length && valid[w + 1].time * envelopeRate <= i) w++;
+    period[i] = (60 / valid[w].bpm) * envelopeRate;
+  }
+
+  // 1. Forward pass (the gap penalty only changes with the period, so it is tabulated)
+  const score = new Float32Array(length);
+  const backlink = new Int32Array(length).fill(-1);
+  let penalty = new Float32Array(0);
+  let penaltyPeriod = -1;
+  for (let i = 0; i < length; i++) {
+    const p = period[i];
+    if (p !== penaltyPeriod) {
+      penalty = new Float32Array(Math.round(2 * p) + 1);
+      for (let gap = 1; gap < penalty.length; gap++) {
+        const deviation = Math.log(gap / p);
+        penalty[gap] = BEAT_TIGHTNESS * deviation * deviation;
+      }
+      penaltyPeriod = p;
+    }
+    let best = 0;
+    let bestPrev = -1;
+    const from = Math.max(0, i - (penalty.length - 1));
+    const to = i - Math.round(p / 2);
+    for (let prev = from; prev <= to; prev++) {
+      const candidate = score[prev] - penalty[i - prev];
+      if (bestPrev === -1 || candidate > best) {
+        best = candidate;
+        bestPrev = prev;
+      }
+    }
+    score[i] = onset[i] / norm + (bestPrev === -1 ? 0 : best);
+    backlink[i] = bestPrev;
+  }
+
+  // 2. Backtrack from the best beat within the final period
+  let last = length - 1;
+  for (let i = Math.max(0, Math.round(length - period[length - 1])); i < length; i++) {
+    if (score[i] > score[last]) last = i;
+  }
+  const frames: number[] = [];
+  for (let i = last; i >= 0; i = backlink[i]) frames.push(i);
+  frames.reverse();
+  if (frames.length === 0) return [];
 
-  // Clamp
-  if (detectedBpm < minBpm) detectedBpm = minBpm;
-  if (detectedBpm > maxBpm) detectedBpm = maxBpm;
+  // 3. Downbeat phase: onset energy (+/- one frame) summed per position in the bar
+  const phaseEnergy = new Array(BEATS_PER_BAR).fill(0);
+  frames.forEach((frame, i) => {
+    const energy = (onset[frame - 1] || 0) + onset[frame] + (onset[frame + 1] || 0);
+    phaseEnergy[i % BEATS_PER_BAR] += energy;
+  });
+  const downbeatPhase = phaseEnergy.indexOf(Math.max(...phaseEnergy));
 
-  return detectedBpm;
+  return frames.map((frame, i) => {
+    const fromDownbeat = i - downbeatPhase;
+    return {
+      time: frame / envelopeRate,
+      bar: fromDownbeat < 0 ? 0 : Math.floor(fromDownbeat / BEATS_PER_BAR) + 1,
+      beat: ((fromDownbeat % BEATS_PER_BAR) + BEATS_PER_BAR) % BEATS_PER_BAR + 1,
+    };
+  });
 }
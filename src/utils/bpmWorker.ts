@@ -0,0 +1,110 @@
+import { BpmPoint, BpmProfile } from '../types';
+
+export type BpmWorkerRequest =
+  | { type: 'load'; data: Float32Array; sampleRate: number; duration: number; profile: BpmProfile } // Filtered PCM, transferred
+  | { type: 'analyze'; id: number; interval: number };
+
+export type BpmWorkerMessage =
+  | { type: 'points'; id: number; points: BpmPoint[]; progress: number } // progress 0-1
+  | { type: 'onset'; id: number; onset: Float32Array; rate: number } // Tempogram onset envelope, once built
+  | { type: 'done'; id: number }
+  | { type: 'error'; id: number; message: string };
+
+export interface BpmAnalysisCallbacks {
+  onPoints: (points: BpmPoint[], progress: number) => void;
+  onOnset: (onset: Float32Array, rate: number) => void; // For beat tracking on the main thread
+  onDone: () => void;
+  onError: (error: Error) => void;
+}
+
+export interface BpmAnalyzer {
+  /** Starts an analysis at the given interval, replacing any running one. */
+  analyze: (interval: number, callbacks: BpmAnalysisCallbacks) => void;
+  /** Stops the running analysis; no further callbacks fire for it. */
+  cancel: () => void;
+  dispose: () => void;
+}
+
+/**
+ * BPM detection for one track in a Web Worker. The worker keeps its own copy
+ * of the filtered data and the tempogram built from it, so analyses after the
+ * first (e.g. interval changes) only slice windows and finish almost at once.
+ * Points are reported in batches as windows complete.
+ */
+export function createBpmAnalyzer(data: Float32Array, sampleRate: number, duration: number, profile: BpmProfile): BpmAnalyzer {
+  let worker: Worker | null = null;
+  let jobId = 0;
+  let running: BpmAnalysisCallbacks | null = null;
+
+  const finish = () => {
+    running = null;
+  };
+
+  const terminate = () => {
+    worker?.terminate();
+    worker = null;
+  };
+
+  const fail = (id: number, error: Error) => {
+    const callbacks = running;
+    if (id !== jobId || !callbacks) return;
+    finish();
+    callbacks.onError(error);
+  };
+
+  // Started lazily, and again after a cancel interrupted it
+  const getWorker = () => {
+    if (worker) return worker;
+    const instance = new Worker(new URL('../workers/bpm.worker.ts', import.meta.url), { type: 'module' });
+
+    instance.onmessage = (e: MessageEvent<BpmWorkerMessage>) => {
+      const message = e.data;
+      const callbacks = running;
+      // Ignore results of superseded or cancelled analyses
+      if (message.id !== jobId || !callbacks) return;
+      if (message.type === 'points') {
+        callbacks.onPoints(message.points, message.progress);
+      } else if (message.type === 'onset') {
+        callbacks.onOnset(message.onset, message.rate);
+      } else if (message.type === 'done') {
+        finish();
+        callbacks.onDone();
+      } else {
+        fail(message.id, new Error(message.message));
+      }
+    };
+
+    instance.onerror = (e) => {
+      e.preventDefault();
+      terminate();
+      fail(jobId, new Error(e.message));
+    };
+
+    const copy = data.slice();
+    const load: BpmWorkerRequest = { type: 'load', data: copy, sampleRate, duration, profile };
+    instance.postMessage(load, [copy.buffer]);
+    worker = instance;
+    return instance;
+  };
+
+  return {
+    analyze: (interval, callbacks) => {
+      jobId++;
+      running = callbacks;
+      const request: BpmWorkerRequest = { type: 'analyze', id: jobId, interval };
+      getWorker().postMessage(request);
+    },
+    cancel: () => {
+      if (!running) return;
+      jobId++;
+      finish();
+      // The worker can't be interrupted mid-analysis, so it's restarted
+      terminate();
+    },
+    dispose: () => {
+      jobId++;
+      finish();
+      terminate();
+    },
+  };
+}
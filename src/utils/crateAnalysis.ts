@@ -0,0 +1,228 @@
+import { CrateTrack } from '../types';
+import { decodeAudioData } from './audioAnalysis';
+import { filterAudioBuffer } from './bpm';
+import { renderChromaInput } from './key';
+
+// Workers analysing files at once
+const CRATE_POOL_SIZE = Math.max(1, Math.min(3, (navigator.hardwareConcurrency || 2) - 1));
+
+// Sample data (bytes) held for the files in flight. Files are decoded one at a
+// time and the next one waits until there is room; a single file above this
+// (about 30 minutes of 44.1kHz stereo with its BPM and key renders) is
+// reported as too large instead.
+const CRATE_MEMORY_BUDGET = 1024 * 1024 * 1024;
+
+const AUDIO_EXTENSIONS = /\.(mp3|wav|aiff?|flac|ogg|oga|opus|m4a|aac|wma|webm)$/i;
+
+export const isAudioFile = (file: File) => file.type.startsWith('audio/') || AUDIO_EXTENSIONS.test(file.name);
+
+export type CrateResult = Pick<CrateTrack, 'duration' | 'bpm' | 'bpmConfidence' | 'key' | 'loudness' | 'peak'>;
+
+// Everything the worker needs, rendered on the main thread (decoding and
+// OfflineAudioContext aren't available in workers). All arrays are transferred.
+export interface CrateWorkerRequest {
+  id: string;
+  channels: Float32Array[];
+  sampleRate: number;
+  duration: number;
+  filtered: Float32Array; // BPM filter output (see filterAudioBuffer)
+  filteredRate: number;
+  chroma: Float32Array; // Mono mixdown for key detection (see renderChromaInput)
+  chromaRate: number;
+}
+
+export type CrateWorkerMessage =
+  | { type: 'result'; id: string; result: CrateResult }
+  | { type: 'error'; id: string; message: string };
+
+export interface CrateAnalyzer {
+  add: (tracks: CrateTrack[]) => void;
+  /** Drops the files still queued (reported as cancelled); running ones finish. */
+  cancel: () => void;
+  dispose: () => void;
+}
+
+/**
+ * Batch analysis of a crate of files on a small worker pool. Each file is
+ * decoded and pre-rendered on the main thread, then tempo, key, loudness and
+ * true peak are measured in a worker. `onUpdate` receives status changes and
+ * results per track id.
+ */
+export function createCrateAnalyzer(onUpdate: (id: string, patch: Partial<CrateTrack>) => void): CrateAnalyzer {
+  const queue: CrateTrack[] = [];
+  const workers: Worker[] = []; // Pool slots; a crashed worker is replaced in its slot
+  const idleSlots: number[] = [];
+  // The job each worker is running (one at a time)
+  const pending = new Map<Worker, { id: string; resolve: (result: CrateResult) => void; reject: (error: Error) => void }>();
+  let heldBytes = 0;
+  let onRoom: (() => void) | null = null; // Wakes the file waiting for memory
+  let preparing: Promise<unknown> = Promise.resolve(); // Serializes decoding
+  let isDisposed = false;
+
+  const rejectJob = (worker: Worker, error: Error) => {
+    const job = pending.get(worker);
+    if (!job) return;
+    pending.delete(worker);
+    job.reject(error);
+  };
+
+  const createWorker = (slot: number) => {
+    const worker = new Worker(new URL('../workers/crate.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<CrateWorkerMessage>) => {
+      const message = e.data;
+      const job = pending.get(worker);
+      if (!job || job.id !== message.id) return;
+      pending.delete(worker);
+      if (message.type === 'result') job.resolve(message.result);
+      else job.reject(new Error(message.message));
+    };
+    worker.onmessageerror = () => rejectJob(worker, new Error('Could not read the analysis result'));
+    // A crash (e.g. out of memory) fails its file; the slot gets a fresh worker
+    worker.onerror = (e) => {
+      e.preventDefault();
+      worker.terminate();
+      if (!isDisposed) workers[slot] = createWorker(slot);
+      rejectJob(worker, new Error(e.message || 'Analysis worker crashed'));
+    };
+    return worker;
+  };
+
+  const prepare = async (track: CrateTrack): Promise<CrateWorkerRequest> => {
+    const buffer = await decodeAudioData(track.file);
+    const filtered = await filterAudioBuffer(buffer);
+    const chroma = await renderChromaInput(buffer);
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < buffer.numberOfChannels; c++) channels.push(buffer.getChannelData(c).slice());
+    return {
+      id: track.id,
+      channels,
+      sampleRate: buffer.sampleRate,
+      duration: buffer.duration,
+      filtered: filtered.data,
+      filteredRate: filtered.sampleRate,
+      chroma: chroma.data,
+      chromaRate: chroma.sampleRate,
+    };
+  };
+
+  // Decodes a file once the previous one has been handed to its worker, and
+  // waits until its samples fit in the memory budget before letting the next
+  // decode start. The AudioBuffer is released as soon as the copies are made.
+  const prepareInTurn = (track: CrateTrack): Promise<{ request: CrateWorkerRequest; bytes: number }> => {
+    const turn = preparing.then(async () => {
+      if (track.file.size > CRATE_MEMORY_BUDGET) throw new Error('File too large to analyze');
+      const request = await prepare(track);
+      const bytes = [...request.channels, request.filtered, request.chroma].reduce((sum, a) => sum + a.byteLength, 0);
+      if (bytes > CRATE_MEMORY_BUDGET) throw new Error('File too large to analyze');
+      while (heldBytes + bytes > CRATE_MEMORY_BUDGET && !isDisposed) {
+        await new Promise<void>(resolve => { onRoom = resolve; });
+      }
+      if (isDisposed) throw new Error('Cancelled');
+      heldBytes += bytes;
+      return { request, bytes };
+    });
+    preparing = turn.catch(() => undefined);
+    return turn;
+  };
+
+  const releaseBytes = (bytes: number) => {
+    heldBytes -= bytes;
+    const wake = onRoom;
+    onRoom = null;
+    wake?.();
+  };
+
+  const analyze = (worker: Worker, request: CrateWorkerRequest) => new Promise<CrateResult>((resolve, reject) => {
+    pending.set(worker, { id: request.id, resolve, reject });
+    const transfer = [...request.channels, request.filtered, request.chroma].map(a => a.buffer);
+    worker.postMessage(request, transfer);
+  });
+
+  // One loop per pool slot, each taking the next queued file until none are left
+  const runSlot = async (slot: number) => {
+    while (queue.length > 0 && !isDisposed) {
+      const track = queue.shift()!;
+      onUpdate(track.id, { status: 'analyzing' });
+      let bytes = 0;
+      try {
+        const prepared = await prepareInTurn(track);
+        bytes = prepared.bytes;
+        const result = await analyze(workers[slot], prepared.request);
+        if (!isDisposed) onUpdate(track.id, { status: 'done', ...result });
+      } catch (err) {
+        if (isDisposed) continue;
+        console.error("Crate analysis failed", track.path, err);
+        onUpdate(track.id, { status: 'error', error: err instanceof Error ? err.message : 'Analysis failed' });
+      } finally {
+        releaseBytes(bytes);
+      }
+    }
+    idleSlots.push(slot);
+  };
+
+  const fillPool = () => {
+    while (queue.length > 0 && (idleSlots.length > 0 || workers.length < CRATE_POOL_SIZE)) {
+      let slot = idleSlots.pop();
+      if (slot === undefined) {
+        slot = workers.length;
+        workers.push(createWorker(slot));
+      }
+      runSlot(slot);
+    }
+  };
+
+  return {
+    add: (tracks) => {
+      if (isDisposed) return;
+      queue.push(...tracks);
+      fillPool();
+    },
+    cancel: () => {
+      for (const track of queue.splice(0)) onUpdate(track.id, { status: 'error', error: 'Cancelled' });
+    },
+    dispose: () => {
+      isDisposed = true;
+      queue.length = 0;
+      workers.forEach(w => w.terminate());
+      // Settle the running jobs so their loops finish and release what they hold
+      [...pending.keys()].forEach(worker => rejectJob(worker, new Error('Cancelled')));
+      onRoom?.();
+    },
+  };
+}
+
+/**
+ * Audio files of a drop, walking into dropped folders. Paths are relative to
+ * the dropped item. Must be called straight from the drop handler (the items
+ * are only readable during the event).
+ */
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<{ file: File; path: string }[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).filter(isAudioFile).map(file => ({ file, path: file.name }));
+  }
+
+  const files: { file: File; path: string }[] = [];
+
+  const walk = async (entry: FileSystemEntry, prefix: string): Promise<void> => {
+    const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+      if (isAudioFile(file)) files.push({ file, path });
+    } else if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      // readEntries returns batches until an empty one
+      for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (batch.length === 0) break;
+        for (const child of batch) await walk(child, path);
+      }
+    }
+  };
+
+  for (const entry of entries) await walk(entry, '');
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -0,0 +1,182 @@
+import { EqBand, EqMatchResult } from '../types';
+import { powerSpectrum, smoothSpectrum, powerToDb, valueAtFrequency } from './spectrum';
+
+const LTAS_FFT_SIZE = 4096;
+// Cap on analysed frames; evenly spread over the track so long files stay fast
+const LTAS_MAX_FRAMES = 600;
+
+// Fit range and resolution (1/6 octave grid)
+const GRID_MIN_FREQ = 25;
+const GRID_MAX_FREQ = 16000;
+const GRID_STEPS_PER_OCTAVE = 6;
+// Broadband level difference is handled by loudness matching, so it is removed over this range
+const LEVEL_REF_MIN_FREQ = 100;
+const LEVEL_REF_MAX_FREQ = 10000;
+
+const MAX_BANDS = 8;
+const MAX_GAIN_DB = 12;
+const STOP_TOLERANCE_DB = 0.5;
+const MIN_Q = 0.4;
+const MAX_Q = 6;
+
+/**
+ * Long-term average power spectrum of a buffer (mono sum, Hann windowed).
+ */
+export function longTermAverageSpectrum(buffer: AudioBuffer, fftSize: number = LTAS_FFT_SIZE): Float64Array {
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < buffer.numberOfChannels; c++) channels.push(buffer.getChannelData(c));
+
+  const available = Math.max(1, Math.floor(buffer.length / fftSize));
+  const frames = Math.min(LTAS_MAX_FRAMES, available);
+  const stride = buffer.length / frames;
+
+  const sum = new Float64Array(fftSize / 2 + 1);
+  for (let f = 0; f < frames; f++) {
+    const power = powerSpectrum(channels, Math.floor(f * stride), fftSize);
+    for (let k = 0; k < sum.length; k++) sum[k] += power[k];
+  }
+  for (let k = 0; k < sum.length; k++) sum[k] /= frames;
+  return sum;
+}
+
+/**
+ * Magnitude response (dB) of one band at `frequency`, using the same
+ * RBJ cookbook formulas as the Web Audio BiquadFilterNode.
+ */
+function bandResponseDb(band: EqBand, frequency: number, sampleRate: number): number {
+  const A = Math.pow(10, band.gain / 40);
+  const w0 = (2 * Math.PI * band.frequency) / sampleRate;
+  const cos = Math.cos(w0);
+  const sin = Math.sin(w0);
+
+  let b0: number, b1: number, b2: number, a0: number, a1: number, a2: number;
+
+  if (band.type === 'peaking') {
+    const alpha = sin / (2 * band.q);
+    b0 = 1 + alpha * A;
+    b1 = -2 * cos;
+    b2 = 1 - alpha * A;
+    a0 = 1 + alpha / A;
+    a1 = -2 * cos;
+    a2 = 1 - alpha / A;
+  } else {
+    // Shelf slope S = 1 (Web Audio ignores Q for shelves)
+    const alpha = (sin / 2) * Math.SQRT2;
+    const k = 2 * Math.sqrt(A) * alpha;
+    if (band.type === 'lowshelf') {
+      b0 = A * ((A + 1) - (A - 1) * cos + k);
+      b1 = 2 * A * ((A - 1) - (A + 1) * cos);
+      b2 = A * ((A + 1) - (A - 1) * cos - k);
+      a0 = (A + 1) + (A - 1) * cos + k;
+      a1 = -2 * ((A - 1) + (A + 1) * cos);
+      a2 = (A + 1) + (A - 1) * cos - k;
+    } else {
+      b0 = A * ((A + 1) + (A - 1) * cos + k);
+      b1 = -2 * A * ((A - 1) + (A + 1) * cos);
+      b2 = A * ((A + 1) + (A - 1) * cos - k);
+      a0 = (A + 1) - (A - 1) * cos + k;
+      a1 = 2 * ((A - 1) - (A + 1) * cos);
+      a2 = (A + 1) - (A - 1) * cos - k;
+    }
+  }
+
+  const w = (2 * Math.PI * frequency) / sampleRate;
+  const c1 = Math.cos(w), s1 = Math.sin(w);
+  const c2 = Math.cos(2 * w), s2 = Math.sin(2 * w);
+  const numRe = b0 + b1 * c1 + b2 * c2;
+  const numIm = -(b1 * s1 + b2 * s2);
+  const denRe = a0 + a1 * c1 + a2 * c2;
+  const denIm = -(a1 * s1 + a2 * s2);
+  const mag2 = (numRe * numRe + numIm * numIm) / (denRe * denRe + denIm * denIm);
+  return 10 * Math.log10(mag2);
+}
+
+/**
+ * Combined response (dB) of a list of bands at `frequency`.
+ */
+export function eqResponseDb(bands: EqBand[], frequency: number, sampleRate: number): number {
+  return bands.reduce((acc, band) => acc + bandResponseDb(band, frequency, sampleRate), 0);
+}
+
+/**
+ * Proposes parametric bands that move A's long-term spectrum towards B's.
+ * 1. Target = 1/3-octave smoothed (B - A) in dB, with the broadband offset removed.
+ * 2. Greedy fit: place a band at the largest remaining deviation, sized by the width
+ *    of that deviation, subtract its response and repeat.
+ */
+export function suggestMatchEq(bufA: AudioBuffer, bufB: AudioBuffer): EqMatchResult | null {
+  if (bufA.sampleRate !== bufB.sampleRate) return null;
+  const sampleRate = bufA.sampleRate;
+  const binHz = sampleRate / LTAS_FFT_SIZE;
+
+  const ltasA = smoothSpectrum(longTermAverageSpectrum(bufA), 3);
+  const ltasB = smoothSpectrum(longTermAverageSpectrum(bufB), 3);
+
+  // 1. Target curve on a log grid
+  const frequencies: number[] = [];
+  const maxFreq = Math.min(GRID_MAX_FREQ, sampleRate / 2 * 0.9);
+  for (let f = GRID_MIN_FREQ; f <= maxFreq; f *= Math.pow(2, 1 / GRID_STEPS_PER_OCTAVE)) {
+    frequencies.push(f);
+  }
+
+  const target = frequencies.map(f =>
+    powerToDb(valueAtFrequency(ltasB, f, binHz)) - powerToDb(valueAtFrequency(ltasA, f, binHz))
+  );
+
+  const refPoints = frequencies
+    .map((f, i) => ({ f, v: target[i] }))
+    .filter(p => p.f >= LEVEL_REF_MIN_FREQ && p.f <= LEVEL_REF_MAX_FREQ);
+  const offset = refPoints.length > 0 ? refPoints.reduce((acc, p) => acc + p.v, 0) / refPoints.length : 0;
+  for (let i = 0; i < target.length; i++) {
+    target[i] = Math.max(-MAX_GAIN_DB, Math.min(MAX_GAIN_DB, target[i] - offset));
+  }
+
+  // 2. Greedy band fit
+  const residual = [...target];
+  const bands: EqBand[] = [];
+
+  for (let n = 0; n < MAX_BANDS; n++) {
+    let idx = 0;
+    for (let i = 1; i < residual.length; i++) {
+      if (Math.abs(residual[i]) > Math.abs(residual[idx])) idx = i;
+    }
+    const gain = residual[idx];
+    if (Math.abs(gain) < STOP_TOLERANCE_DB) break;
+
+    // Width of the deviation: walk out until it drops below half its height
+    let lo = idx;
+    let hi = idx;
+    while (lo > 0 && Math.sign(residual[lo - 1]) === Math.sign(gain) && Math.abs(residual[lo - 1]) > Math.abs(gain) / 2) lo--;
+    while (hi < residual.length - 1 && Math.sign(residual[hi + 1]) === Math.sign(gain) && Math.abs(residual[hi + 1]) > Math.abs(gain) / 2) hi++;
+
+    let type: EqBand['type'] = 'peaking';
+    if (lo === 0 && hi < residual.length - 1) type = 'lowshelf';
+    else if (hi === residual.length - 1 && lo > 0) type = 'highshelf';
+
+    const octaves = Math.max(1 / GRID_STEPS_PER_OCTAVE, Math.log2(frequencies[hi] / frequencies[lo]));
+    const ratio = Math.pow(2, octaves);
+    const q = Math.max(MIN_Q, Math.min(MAX_Q, Math.sqrt(ratio) / (ratio - 1)));
+
+    const band: EqBand = {
+      type,
+      // Shelves are anchored at the inner edge of the deviation so the full gain covers it
+      frequency: type === 'lowshelf' ? frequencies[hi] : type === 'highshelf' ? frequencies[lo] : frequencies[idx],
+      gain: Math.max(-MAX_GAIN_DB, Math.min(MAX_GAIN_DB, gain)),
+      q,
+    };
+    bands.push(band);
+
+    for (let i = 0; i < residual.length; i++) {
+      residual[i] -= bandResponseDb(band, frequencies[i], sampleRate);
+    }
+  }
+
+  bands.sort((a, b) => a.frequency - b.frequency);
+
+  return {
+    bands,
+    frequencies,
+    target,
+    fitted: frequencies.map(f => eqResponseDb(bands, f, sampleRate)),
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * Triggers a browser download for in-memory content.
+ */
+export function downloadFile(filename: string, content: BlobPart, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadJson(filename: string, data: unknown): void {
+  downloadFile(filename, JSON.stringify(data, null, 2), 'application/json');
+}
+
+const escapeCsvCell = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const str = String(value);
+  return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+/**
+ * Serializes rows to RFC 4180 CSV with a header line.
+ */
+export function toCsv(headers: string[], rows: Array<Array<string | number | null | undefined>>): string {
+  return [headers, ...rows]
+    .map(row => row.map(escapeCsvCell).join(','))
+    .join('\r\n');
+}
+
+export function downloadCsv(filename: string, headers: string[], rows: Array<Array<string | number | null | undefined>>): void {
+  downloadFile(filename, toCsv(headers, rows), 'text/csv');
+}
+
+/**
+ * Parses RFC 4180 CSV (quoted cells, escaped quotes, CRLF or LF) into rows of cells.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+}
+
+/**
+ * Strips the extension from a file name for use as an export prefix.
+ */
+export const baseName = (fileName: string) => fileName.replace(/\.[^/.]+$/, '');
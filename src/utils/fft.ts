@@ -0,0 +1,101 @@
+/**
+ * Returns the smallest power of two that is >= n.
+ */
+export function nextPow2(n: number): number {
+  let size = 1;
+  while (size < n) size <<= 1;
+  return size;
+}
+
+/**
+ * In-place iterative radix-2 Cooley-Tukey FFT.
+ * `re` and `im` must have the same power-of-two length.
+ * Pass `inverse = true` for the inverse transform (result is scaled by 1/N).
+ */
+export function fft(re: Float64Array, im: Float64Array, inverse: boolean = false): void {
+  const n = re.length;
+  if (n <= 1) return;
+
+  // 1. Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      const tr = re[i]; re[i] = re[j]; re[j] = tr;
+      const ti = im[i]; im[i] = im[j]; im[j] = ti;
+    }
+  }
+
+  // 2. Butterflies
+  const sign = inverse ? 1 : -1;
+  for (let len = 2; len <= n; len <<= 1) {
+    const half = len >> 1;
+    const angle = sign * 2 * Math.PI / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < half; k++) {
+        const a = i + k;
+        const b = a + half;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+
+  // 3. Normalize inverse
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+}
+
+/**
+ * Linear cross-correlation r[k] = sum(a[n] * b[n + k]) computed via FFT.
+ * Returns an array of length `2 * maxLag + 1` where index `maxLag + k` holds lag k.
+ * A positive lag means the content of `b` appears later than in `a`.
+ */
+export function crossCorrelate(a: Float32Array, b: Float32Array, maxLag: number): Float64Array {
+  const size = nextPow2(a.length + b.length);
+  const aRe = new Float64Array(size);
+  const aIm = new Float64Array(size);
+  const bRe = new Float64Array(size);
+  const bIm = new Float64Array(size);
+  aRe.set(a);
+  bRe.set(b);
+
+  fft(aRe, aIm);
+  fft(bRe, bIm);
+
+  // conj(A) * B
+  for (let i = 0; i < size; i++) {
+    const re = aRe[i] * bRe[i] + aIm[i] * bIm[i];
+    const im = aRe[i] * bIm[i] - aIm[i] * bRe[i];
+    aRe[i] = re;
+    aIm[i] = im;
+  }
+  fft(aRe, aIm, true);
+
+  const out = new Float64Array(2 * maxLag + 1);
+  for (let k = -maxLag; k <= maxLag; k++) {
+    // Negative lags wrap around to the end of the circular result
+    out[maxLag + k] = aRe[(k + size) % size];
+  }
+  return out;
+}
@@ -0,0 +1,215 @@
+import { KeyEstimate, KeyPoint } from '../types';
+import { powerSpectrum } from './spectrum';
+import { analysisWindows } from './bpm';
+
+// Chroma analysis rate: covers pitches up to ~2kHz with room to spare, and is cheap
+const KEY_SAMPLE_RATE = 11025;
+// ~2.7Hz bins at 11025Hz, fine enough to tell semitones apart from ~55Hz up
+const CHROMA_FFT_SIZE = 4096;
+// Pitch range folded into the chroma (A1 up to ~B6)
+const CHROMA_MIN_HZ = 55;
+const CHROMA_MAX_HZ = 2000;
+// Frames below this mean power (about -70dBFS) are left out of the chroma
+const CHROMA_SILENCE = 1e-7;
+// Correlation lead over the runner-up key needed for full confidence
+const KEY_MARGIN_FOR_FULL_CONFIDENCE = 0.1;
+// Below this a key is shown as uncertain
+export const LOW_KEY_CONFIDENCE = 0.4;
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+// Key profiles, tonic first: Krumhansl-Kessler probe-tone ratings and
+// Temperley's Kostka-Payne corpus profiles. Keys are scored against both.
+const KEY_PROFILES = [
+  {
+    major: [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88],
+    minor: [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17],
+  },
+  {
+    major: [0.748, 0.060, 0.488, 0.082, 0.670, 0.460, 0.096, 0.715, 0.104, 0.366, 0.057, 0.400],
+    minor: [0.712, 0.084, 0.474, 0.618, 0.049, 0.460, 0.105, 0.747, 0.404, 0.067, 0.133, 0.330],
+  },
+];
+
+/** Short key name as used on decks and in the log, e.g. "Am" or "F#". */
+export const shortKeyName = (key: KeyEstimate) => `${NOTE_NAMES[key.tonic]}${key.mode === 'minor' ? 'm' : ''}`;
+
+/**
+ * Camelot wheel code: numbers follow the circle of fifths (C major = 8B),
+ * relative minors share the number with an A (A minor = 8A).
+ */
+export function camelotCode(tonic: number, mode: 'major' | 'minor'): string {
+  const major = mode === 'major' ? tonic : (tonic + 3) % 12;
+  return `${((major * 7 + 7) % 12) + 1}${mode === 'major' ? 'B' : 'A'}`;
+}
+
+const pitchClassCache = new Map<number, Int8Array>();
+
+// Pitch class of every FFT bin inside the chroma range (-1 outside), cached per rate
+function getPitchClasses(sampleRate: number): Int8Array {
+  let classes = pitchClassCache.get(sampleRate);
+  if (!classes) {
+    classes = new Int8Array(CHROMA_FFT_SIZE / 2 + 1).fill(-1);
+    for (let k = 1; k < classes.length; k++) {
+      const freq = (k * sampleRate) / CHROMA_FFT_SIZE;
+      if (freq < CHROMA_MIN_HZ || freq > CHROMA_MAX_HZ) continue;
+      const midi = Math.round(69 + 12 * Math.log2(freq / 440));
+      classes[k] = midi % 12;
+    }
+    pitchClassCache.set(sampleRate, classes);
+  }
+  return classes;
+}
+
+/**
+ * Chroma (energy per pitch class, C first) of a whole track, one frame per
+ * FFT block, kept as running sums so the chroma of any time range is a
+ * subtraction. Every non-silent frame is normalised, so loud sections don't
+ * outweigh quiet ones.
+ */
+export interface Chromagram {
+  frameSeconds: number;
+  frameCount: number;
+  duration: number;
+  sums: Float64Array; // 12 values per frame boundary: chroma of all frames before it
+}
+
+export function buildChromagram(data: Float32Array, sampleRate: number): Chromagram {
+  const classes = getPitchClasses(sampleRate);
+  // Trailing partial frames count if at least half full
+  const frameCount = Math.max(0, Math.floor((data.length + CHROMA_FFT_SIZE / 2) / CHROMA_FFT_SIZE));
+  const sums = new Float64Array((frameCount + 1) * 12);
+  const frame = new Float64Array(12);
+
+  for (let f = 0; f < frameCount; f++) {
+    const offset = f * CHROMA_FFT_SIZE;
+    const row = (f + 1) * 12;
+    for (let pc = 0; pc < 12; pc++) sums[row + pc] = sums[row - 12 + pc];
+
+    const power = powerSpectrum([data], offset, CHROMA_FFT_SIZE);
+    frame.fill(0);
+    let total = 0;
+    let mean = 0;
+    for (let k = 0; k < power.length; k++) {
+      mean += power[k];
+      if (classes[k] < 0) continue;
+      const magnitude = Math.sqrt(power[k]);
+      frame[classes[k]] += magnitude;
+      total += magnitude;
+    }
+    if (total <= 0 || mean / power.length < CHROMA_SILENCE) continue;
+    for (let pc = 0; pc < 12; pc++) sums[row + pc] += frame[pc] / total;
+  }
+
+  return { frameSeconds: CHROMA_FFT_SIZE / sampleRate, frameCount, duration: data.length / sampleRate, sums };
+}
+
+/** Chroma vector of the frames between `start` and `end` (seconds). */
+export function chromaInRange(chromagram: Chromagram, start: number, end: number): Float64Array {
+  const from = Math.max(0, Math.min(chromagram.frameCount, Math.floor(start / chromagram.frameSeconds)));
+  const to = Math.max(from, Math.min(chromagram.frameCount, Math.ceil(end / chromagram.frameSeconds)));
+  const chroma = new Float64Array(12);
+  for (let pc = 0; pc < 12; pc++) chroma[pc] = chromagram.sums[to * 12 + pc] - chromagram.sums[from * 12 + pc];
+  return chroma;
+}
+
+// Pearson correlation of a chroma vector with a profile rotated to `tonic`
+function correlate(chroma: Float64Array, profile: number[], tonic: number): number {
+  let meanChroma = 0;
+  let meanProfile = 0;
+  for (let pc = 0; pc < 12; pc++) {
+    meanChroma += chroma[pc] / 12;
+    meanProfile += profile[pc] / 12;
+  }
+  let covariance = 0;
+  let varChroma = 0;
+  let varProfile = 0;
+  for (let pc = 0; pc < 12; pc++) {
+    const c = chroma[pc] - meanChroma;
+    const p = profile[(pc - tonic + 12) % 12] - meanProfile;
+    covariance += c * p;
+    varChroma += c * c;
+    varProfile += p * p;
+  }
+  return varChroma > 0 && varProfile > 0 ? covariance / Math.sqrt(varChroma * varProfile) : 0;
+}
+
+/**
+ * Best matching key for a chroma vector (mean correlation with the key
+ * profiles over all 24 keys). Confidence combines how well the best key fits
+ * with its lead over the runner-up. Returns null for silence.
+ */
+export function estimateKey(chroma: Float64Array): KeyEstimate | null {
+  if (!chroma.some(v => v > 0)) return null;
+
+  let best = { tonic: 0, mode: 'major' as 'major' | 'minor', score: -Infinity };
+  let runnerUp = -Infinity;
+  for (const mode of ['major', 'minor'] as const) {
+    for (let tonic = 0; tonic < 12; tonic++) {
+      const score = KEY_PROFILES.reduce((sum, p) => sum + correlate(chroma, p[mode], tonic), 0) / KEY_PROFILES.length;
+      if (score > best.score) {
+        runnerUp = best.score;
+        best = { tonic, mode, score };
+      } else if (score > runnerUp) {
+        runnerUp = score;
+      }
+    }
+  }
+
+  const fit = Math.max(0, best.score);
+  const lead = Math.min(1, (best.score - runnerUp) / KEY_MARGIN_FOR_FULL_CONFIDENCE);
+  return {
+    tonic: best.tonic,
+    mode: best.mode,
+    name: `${NOTE_NAMES[best.tonic]} ${best.mode}`,
+    camelot: camelotCode(best.tonic, best.mode),
+    confidence: fit * (0.5 + 0.5 * lead),
+  };
+}
+
+/**
+ * Key per analysis window (the BPM Log's windows for `interval`). A window is
+ * a modulation when its key is confident and differs from the last confident
+ * window's (uncertain windows in between don't count). Silent windows are left out.
+ */
+export function analyzeKeysFromChromagram(chromagram: Chromagram, interval: number): KeyPoint[] {
+  const points: KeyPoint[] = [];
+  let established: KeyEstimate | null = null;
+  for (const { start, end } of analysisWindows(chromagram.duration, interval)) {
+    const key = estimateKey(chromaInRange(chromagram, start, end));
+    if (!key) continue;
+    const isConfident = key.confidence >= LOW_KEY_CONFIDENCE;
+    const modulation = isConfident && !!established
+      && (established.tonic !== key.tonic || established.mode !== key.mode);
+    if (isConfident) established = key;
+    points.push({ time: start, key, modulation });
+  }
+  return points;
+}
+
+/**
+ * Mono mixdown of a decoded track at the chroma analysis rate, rendered in an
+ * OfflineAudioContext (main thread only; the result can go to a worker).
+ */
+export async function renderChromaInput(buffer: AudioBuffer): Promise<{ data: Float32Array; sampleRate: number }> {
+  const offlineCtx = new OfflineAudioContext(1, Math.max(1, Math.ceil(buffer.duration * KEY_SAMPLE_RATE)), KEY_SAMPLE_RATE);
+  const source = offlineCtx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offlineCtx.destination);
+  source.start(0);
+
+  const rendered = await offlineCtx.startRendering();
+  return { data: rendered.getChannelData(0), sampleRate: KEY_SAMPLE_RATE };
+}
+
+/** Chromagram of a decoded track, computed locally (no API involved). */
+export async function buildTrackChromagram(buffer: AudioBuffer): Promise<Chromagram> {
+  const { data, sampleRate } = await renderChromaInput(buffer);
+  return buildChromagram(data, sampleRate);
+}
+
+/** Key of a whole decoded track, matched against the key profiles. */
+export async function detectKey(buffer: AudioBuffer): Promise<KeyEstimate | null> {
+  const chromagram = await buildTrackChromagram(buffer);
+  return estimateKey(chromaInRange(chromagram, 0, chromagram.duration));
+}
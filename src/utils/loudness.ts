@@ -0,0 +1,272 @@
+import { LoudnessStats } from '../types';
+
+// ITU-R BS.1770-4 constants
+const LUFS_OFFSET = -0.691;
+const ABSOLUTE_GATE = -70; // LUFS
+const RELATIVE_GATE_INTEGRATED = -10; // LU below the absolute-gated level
+const RELATIVE_GATE_RANGE = -20; // EBU Tech 3342 (Loudness Range)
+const SUB_BLOCK_SECONDS = 0.1; // Blocks are assembled from 100ms hops (75% overlap)
+const MOMENTARY_SUB_BLOCKS = 4; // 400ms
+const SHORT_TERM_SUB_BLOCKS = 30; // 3s
+
+export const LOUDNESS_FLOOR = -100;
+
+interface Biquad {
+  b0: number; b1: number; b2: number;
+  a1: number; a2: number;
+}
+
+/**
+ * K-weighting coefficients for an arbitrary sample rate.
+ * Stage 1 is the head-related high shelf, stage 2 the RLB high-pass.
+ * Derived from the analog prototypes so they match the 48kHz table in BS.1770.
+ */
+function kWeightingStages(sampleRate: number): [Biquad, Biquad] {
+  // Stage 1: High shelf (+4dB above ~1.7kHz)
+  const f0 = 1681.974450955533;
+  const G = 3.999843853973347;
+  const Q = 0.7071752369554196;
+  const K = Math.tan(Math.PI * f0 / sampleRate);
+  const Vh = Math.pow(10, G / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  const a0 = 1 + K / Q + K * K;
+  const shelf: Biquad = {
+    b0: (Vh + Vb * K / Q + K * K) / a0,
+    b1: 2 * (K * K - Vh) / a0,
+    b2: (Vh - Vb * K / Q + K * K) / a0,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  // Stage 2: High-pass (~38Hz)
+  const f1 = 38.13547087602444;
+  const Q1 = 0.5003270373238773;
+  const K1 = Math.tan(Math.PI * f1 / sampleRate);
+  const a01 = 1 + K1 / Q1 + K1 * K1;
+  const highpass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: 2 * (K1 * K1 - 1) / a01,
+    a2: (1 - K1 / Q1 + K1 * K1) / a01,
+  };
+
+  return [shelf, highpass];
+}
+
+function runBiquad(input: Float32Array, output: Float32Array, f: Biquad): void {
+  // Direct Form I
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = f.b0 * x + f.b1 * x1 + f.b2 * x2 - f.a1 * y1 - f.a2 * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    output[i] = y;
+  }
+}
+
+/**
+ * Applies the two-stage K-weighting filter to one channel.
+ * The filter starts from rest, so callers analysing a window should include some lead-in.
+ */
+export function applyKWeighting(data: Float32Array, sampleRate: number): Float32Array {
+  const [shelf, highpass] = kWeightingStages(sampleRate);
+  const out = new Float32Array(data.length);
+  runBiquad(data, out, shelf);
+  runBiquad(out, out, highpass);
+  return out;
+}
+
+/**
+ * Channel weights (G_i) per BS.1770. Surround channels of a 5.1 layout
+ * (L, R, C, LFE, Ls, Rs) get +1.5dB and the LFE is excluded.
+ */
+export function channelWeight(channel: number, numChannels: number): number {
+  if (numChannels === 6) {
+    if (channel === 3) return 0;
+    if (channel >= 4) return 1.41;
+  }
+  return 1;
+}
+
+export const powerToLufs = (power: number) => power > 0 ? LUFS_OFFSET + 10 * Math.log10(power) : LOUDNESS_FLOOR;
+
+/**
+ * Weighted mean-square power of consecutive 100ms sub-blocks, summed across channels.
+ * 400ms (momentary) and 3s (short-term) blocks are averages of neighbouring entries.
+ */
+export function kWeightedSubBlockPowers(buffer: AudioBuffer): Float64Array {
+  const sampleRate = buffer.sampleRate;
+  const subBlockSize = Math.round(SUB_BLOCK_SECONDS * sampleRate);
+  const count = Math.floor(buffer.length / subBlockSize);
+  const powers = new Float64Array(count);
+
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const weight = channelWeight(c, buffer.numberOfChannels);
+    if (weight === 0) continue;
+
+    const filtered = applyKWeighting(buffer.getChannelData(c), sampleRate);
+    for (let b = 0; b < count; b++) {
+      let sumSq = 0;
+      const start = b * subBlockSize;
+      for (let i = start; i < start + subBlockSize; i++) {
+        sumSq += filtered[i] * filtered[i];
+      }
+      powers[b] += weight * (sumSq / subBlockSize);
+    }
+  }
+  return powers;
+}
+
+/**
+ * Sliding-window block powers (hop = one sub-block).
+ */
+function blockPowers(subBlocks: Float64Array, blockLength: number): Float64Array {
+  const count = subBlocks.length - blockLength + 1;
+  if (count <= 0) return new Float64Array(0);
+
+  const out = new Float64Array(count);
+  let running = 0;
+  for (let i = 0; i < subBlocks.length; i++) {
+    running += subBlocks[i];
+    if (i >= blockLength) running -= subBlocks[i - blockLength];
+    if (i >= blockLength - 1) out[i - blockLength + 1] = running / blockLength;
+  }
+  return out;
+}
+
+const absoluteThreshold = Math.pow(10, (ABSOLUTE_GATE - LUFS_OFFSET) / 10);
+
+/**
+ * Gated integrated loudness (BS.1770-4, section 2.8).
+ */
+function integratedFromBlocks(blocks: Float64Array): number {
+  // 1. Absolute gate
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < blocks.length; i++) {
+    if (blocks[i] > absoluteThreshold) {
+      sum += blocks[i];
+      count++;
+    }
+  }
+  if (count === 0) return LOUDNESS_FLOOR;
+
+  // 2. Relative gate
+  const relativeThreshold = (sum / count) * Math.pow(10, RELATIVE_GATE_INTEGRATED / 10);
+  sum = 0;
+  count = 0;
+  for (let i = 0; i < blocks.length; i++) {
+    if (blocks[i] > absoluteThreshold && blocks[i] > relativeThreshold) {
+      sum += blocks[i];
+      count++;
+    }
+  }
+  return count > 0 ? powerToLufs(sum / count) : LOUDNESS_FLOOR;
+}
+
+/**
+ * Loudness Range (EBU Tech 3342): spread between the 10th and 95th
+ * percentile of gated short-term loudness.
+ */
+function rangeFromBlocks(blocks: Float64Array): number {
+  const aboveAbsolute: number[] = [];
+  for (let i = 0; i < blocks.length; i++) {
+    if (blocks[i] > absoluteThreshold) aboveAbsolute.push(blocks[i]);
+  }
+  if (aboveAbsolute.length === 0) return 0;
+
+  const mean = aboveAbsolute.reduce((acc, p) => acc + p, 0) / aboveAbsolute.length;
+  const relativeThreshold = mean * Math.pow(10, RELATIVE_GATE_RANGE / 10);
+  const gated = aboveAbsolute
+    .filter(p => p > relativeThreshold)
+    .map(powerToLufs)
+    .sort((a, b) => a - b);
+  if (gated.length === 0) return 0;
+
+  const percentile = (p: number) => gated[Math.min(gated.length - 1, Math.round(p * (gated.length - 1)))];
+  return percentile(0.95) - percentile(0.1);
+}
+
+/**
+ * Full-file loudness measurement: integrated loudness (LUFS) and loudness range (LU).
+ */
+export function measureLoudness(buffer: AudioBuffer): LoudnessStats {
+  const subBlocks = kWeightedSubBlockPowers(buffer);
+  return {
+    integrated: integratedFromBlocks(blockPowers(subBlocks, MOMENTARY_SUB_BLOCKS)),
+    range: rangeFromBlocks(blockPowers(subBlocks, SHORT_TERM_SUB_BLOCKS)),
+  };
+}
+
+/**
+ * Momentary (400ms) and short-term (3s) loudness ending at `time`,
+ * read from precomputed sub-block powers (see kWeightedSubBlockPowers).
+ */
+export function loudnessAt(subBlocks: Float64Array, time: number): { momentary: number; shortTerm: number } {
+  const end = Math.min(subBlocks.length, Math.floor(time / SUB_BLOCK_SECONDS));
+
+  const meanOver = (blocks: number) => {
+    const start = Math.max(0, end - blocks);
+    if (end <= start) return LOUDNESS_FLOOR;
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += subBlocks[i];
+    // Divide by the full block length so the meter ramps up at the start like a DAW meter
+    return powerToLufs(sum / blocks);
+  };
+
+  return {
+    momentary: meanOver(MOMENTARY_SUB_BLOCKS),
+    shortTerm: meanOver(SHORT_TERM_SUB_BLOCKS),
+  };
+}
+
+// 4x oversampling interpolation filter (BS.1770-4 Annex 2): 48 taps split into 4 phases of 12
+const OVERSAMPLE = 4;
+const TAPS_PER_PHASE = 12;
+
+const truePeakPhases: Float64Array[] = (() => {
+  const length = OVERSAMPLE * TAPS_PER_PHASE;
+  const center = (length - 1) / 2;
+  const phases = Array.from({ length: OVERSAMPLE }, () => new Float64Array(TAPS_PER_PHASE));
+  for (let i = 0; i < length; i++) {
+    const x = (i - center) / OVERSAMPLE;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    // Blackman-Harris window keeps pass-band ripple low
+    const w = 0.35875
+      - 0.48829 * Math.cos(2 * Math.PI * i / (length - 1))
+      + 0.14128 * Math.cos(4 * Math.PI * i / (length - 1))
+      - 0.01168 * Math.cos(6 * Math.PI * i / (length - 1));
+    phases[i % OVERSAMPLE][Math.floor(i / OVERSAMPLE)] = sinc * w;
+  }
+  return phases;
+})();
+
+/**
+ * True peak (linear) of `data[start..end)` using 4x polyphase oversampling.
+ * Samples before `start` are used as filter history when available.
+ */
+export function truePeak(data: Float32Array, start: number, end: number): number {
+  let peak = 0;
+  const from = Math.max(0, start);
+  const to = Math.min(data.length, end);
+
+  for (let n = from; n < to; n++) {
+    const sample = Math.abs(data[n]);
+    if (sample > peak) peak = sample;
+
+    for (let p = 0; p < OVERSAMPLE; p++) {
+      const h = truePeakPhases[p];
+      let acc = 0;
+      for (let k = 0; k < TAPS_PER_PHASE; k++) {
+        const idx = n - k;
+        if (idx < 0) break;
+        acc += data[idx] * h[k];
+      }
+      const abs = Math.abs(acc);
+      if (abs > peak) peak = abs;
+    }
+  }
+  return peak;
+}
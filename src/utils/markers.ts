@@ -0,0 +1,125 @@
+import { Marker } from '../types';
+import { toCsv, parseCsv } from './export';
+
+const STORAGE_PREFIX = 'MARKERS:';
+
+export type MarkerFormat = 'json' | 'csv' | 'audacity';
+
+export const createMarkerId = () => Math.random().toString(36).substring(2, 9);
+
+/**
+ * Storage key for a file: its name plus a SHA-256 of its contents, so markers
+ * follow the exact audio even if another file has the same name.
+ */
+export async function getTrackKey(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  const hash = Array.from(new Uint8Array(digest).slice(0, 12))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+  return `${file.name}:${hash}`;
+}
+
+export function loadMarkers(trackKey: string): Marker[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + trackKey);
+    return stored ? normalizeMarkers(JSON.parse(stored)) : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+export function saveMarkers(trackKey: string, markers: Marker[]): void {
+  try {
+    if (markers.length === 0) localStorage.removeItem(STORAGE_PREFIX + trackKey);
+    else localStorage.setItem(STORAGE_PREFIX + trackKey, JSON.stringify(markers));
+  } catch (e) {
+    console.warn("Could not persist markers", e);
+  }
+}
+
+export const sortMarkers = (markers: Marker[]) => [...markers].sort((a, b) => a.start - b.start);
+
+/** Reads a time in seconds from a number or numeric string (CSV and label imports). */
+const toSeconds = (value: unknown): number | null => {
+  if (typeof value !== 'number' && (typeof value !== 'string' || value.trim() === '')) return null;
+  const seconds = Number(value);
+  return Number.isFinite(seconds) ? seconds : null;
+};
+
+/**
+ * Validates loosely shaped input (stored or imported JSON) into markers.
+ * Accepts a bare array or an object with a `markers` array.
+ */
+function normalizeMarkers(input: unknown): Marker[] {
+  const list = Array.isArray(input) ? input : (input as { markers?: unknown })?.markers;
+  if (!Array.isArray(list)) return [];
+
+  return sortMarkers(list.flatMap((item: unknown) => {
+    if (typeof item !== 'object' || item === null) return [];
+    const fields = item as Record<string, unknown>;
+    const start = toSeconds(fields.start);
+    if (start === null) return [];
+    const end = toSeconds(fields.end);
+    return [{
+      id: typeof fields.id === 'string' ? fields.id : createMarkerId(),
+      name: typeof fields.name === 'string' || typeof fields.name === 'number' ? String(fields.name) : '',
+      start,
+      end: end !== null && end > start ? end : null,
+    }];
+  }));
+}
+
+/**
+ * Serializes markers. Audacity label tracks are tab separated "start end label"
+ * lines, with start = end for point labels.
+ */
+export function serializeMarkers(markers: Marker[], format: MarkerFormat, trackName: string): string {
+  if (format === 'json') {
+    return JSON.stringify({ track: trackName, markers }, null, 2);
+  }
+  if (format === 'csv') {
+    return toCsv(
+      ['name', 'start_s', 'end_s'],
+      markers.map(m => [m.name, m.start.toFixed(6), m.end === null ? '' : m.end.toFixed(6)])
+    );
+  }
+  return markers
+    .map(m => `${m.start.toFixed(6)}\t${(m.end ?? m.start).toFixed(6)}\t${m.name}`)
+    .join('\n') + '\n';
+}
+
+/**
+ * Parses an imported marker file, picking the format from the extension
+ * (.json, .csv, anything else is treated as an Audacity label track).
+ */
+export function parseMarkers(text: string, fileName: string): Marker[] {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+
+  if (ext === 'json') {
+    return normalizeMarkers(JSON.parse(text));
+  }
+
+  if (ext === 'csv') {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) return [];
+    const col = (name: string) => header.findIndex(h => h.trim().toLowerCase().startsWith(name));
+    const nameCol = col('name');
+    const startCol = col('start');
+    const endCol = col('end');
+    return normalizeMarkers(rows.map(row => ({
+      name: nameCol >= 0 ? row[nameCol] : '',
+      start: row[startCol],
+      end: endCol >= 0 ? row[endCol] : null,
+    })));
+  }
+
+  // Audacity: "start\tend\tlabel"; lines starting with "\" carry spectral
+  // selection frequencies and are skipped
+  return normalizeMarkers(text
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '' && !line.startsWith('\\'))
+    .map(line => {
+      const [start, end, ...label] = line.split('\t');
+      return { name: label.join('\t'), start, end: Number(end) > Number(start) ? end : null };
+    }));
+}
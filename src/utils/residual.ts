@@ -0,0 +1,121 @@
+import { ResidualAnalysis, NullTestReport, NullTestRange } from '../types';
+
+const SILENCE_DB = -100;
+// Block size for time-ranged statistics (ranges are quantized to this)
+const REPORT_BLOCK_SECONDS = 0.05;
+// Ranges separated by less than this are merged into one
+const REPORT_MERGE_GAP_SECONDS = 0.25;
+
+const toDb = (power: number) => power > 1e-10 ? 10 * Math.log10(power) : SILENCE_DB;
+
+/**
+ * Computes the true A - B difference signal offline.
+ * - Both tracks are scaled by their loudness-matching gains first.
+ * - Offsets (seconds) come from the time alignment so sample n of the result
+ *   corresponds to timeline time n / sampleRate.
+ * - Only the span where both tracks overlap is rendered.
+ */
+export function computeResidual(
+  bufA: AudioBuffer,
+  bufB: AudioBuffer,
+  gains: { A: number; B: number },
+  offsets: { A: number; B: number }
+): ResidualAnalysis | null {
+  if (bufA.sampleRate !== bufB.sampleRate) return null;
+  const sampleRate = bufA.sampleRate;
+
+  const offA = Math.round(offsets.A * sampleRate);
+  const offB = Math.round(offsets.B * sampleRate);
+  const length = Math.min(bufA.length - offA, bufB.length - offB);
+  if (length <= 0) return null;
+
+  // Mono tracks are compared against every channel of a stereo counterpart
+  const numChannels = Math.max(bufA.numberOfChannels, bufB.numberOfChannels);
+  const channels: Float32Array[] = [];
+
+  let sumSqResidual = 0;
+  let sumSqSource = 0;
+  let peak = 0;
+
+  for (let c = 0; c < numChannels; c++) {
+    const dataA = bufA.getChannelData(Math.min(c, bufA.numberOfChannels - 1));
+    const dataB = bufB.getChannelData(Math.min(c, bufB.numberOfChannels - 1));
+    const out = new Float32Array(length);
+
+    for (let i = 0; i < length; i++) {
+      const a = dataA[i + offA] * gains.A;
+      const diff = a - dataB[i + offB] * gains.B;
+      out[i] = diff;
+
+      sumSqResidual += diff * diff;
+      sumSqSource += a * a;
+      const abs = Math.abs(diff);
+      if (abs > peak) peak = abs;
+    }
+    channels.push(out);
+  }
+
+  const count = length * numChannels;
+  return {
+    channels,
+    sampleRate,
+    residualDb: toDb(sumSqResidual / count),
+    sourceDb: toDb(sumSqSource / count),
+    peakDb: peak > 0 ? 20 * Math.log10(peak) : SILENCE_DB,
+  };
+}
+
+/**
+ * Builds a numeric null-test report from a residual.
+ * The residual is split into short blocks; consecutive blocks whose RMS exceeds
+ * `thresholdDb` (dBFS) are merged into ranges.
+ */
+export function buildNullTestReport(residual: ResidualAnalysis, thresholdDb: number): NullTestReport {
+  const { channels, sampleRate } = residual;
+  const length = channels[0].length;
+  const blockSize = Math.max(1, Math.round(REPORT_BLOCK_SECONDS * sampleRate));
+  const mergeGap = REPORT_MERGE_GAP_SECONDS;
+
+  const ranges: NullTestRange[] = [];
+  let current: NullTestRange | null = null;
+
+  for (let start = 0; start < length; start += blockSize) {
+    const end = Math.min(start + blockSize, length);
+    let sumSq = 0;
+    let peak = 0;
+    for (const channel of channels) {
+      for (let i = start; i < end; i++) {
+        const v = channel[i];
+        sumSq += v * v;
+        const abs = Math.abs(v);
+        if (abs > peak) peak = abs;
+      }
+    }
+
+    const rmsDb = toDb(sumSq / ((end - start) * channels.length));
+    if (rmsDb <= thresholdDb) continue;
+
+    const peakDb = peak > 0 ? 20 * Math.log10(peak) : SILENCE_DB;
+    const blockStart = start / sampleRate;
+    const blockEnd = end / sampleRate;
+
+    if (current && blockStart - current.end <= mergeGap) {
+      current.end = blockEnd;
+      current.rmsDb = Math.max(current.rmsDb, rmsDb);
+      current.peakDb = Math.max(current.peakDb, peakDb);
+    } else {
+      current = { start: blockStart, end: blockEnd, rmsDb, peakDb };
+      ranges.push(current);
+    }
+  }
+
+  return {
+    residualDb: residual.residualDb,
+    sourceDb: residual.sourceDb,
+    relativeDb: residual.residualDb - residual.sourceDb,
+    peakDb: residual.peakDb,
+    thresholdDb,
+    duration: length / sampleRate,
+    ranges,
+  };
+}
@@ -0,0 +1,123 @@
+import { powerSpectrum, powerToDb } from './spectrum';
+import { TimelineView } from '../types';
+
+export type FrequencyScale = 'linear' | 'log';
+export type ColorMapName = 'magma' | 'viridis' | 'grayscale';
+
+export interface SpectrogramSettings {
+  scale: FrequencyScale;
+  fftSize: number;
+  colorMap: ColorMapName;
+}
+
+export const DEFAULT_SPECTROGRAM_SETTINGS: SpectrogramSettings = {
+  scale: 'log',
+  fftSize: 2048,
+  colorMap: 'magma',
+};
+
+export const FFT_SIZE_OPTIONS = [512, 1024, 2048, 4096, 8192];
+
+// Display range for the colour map
+const SPECTROGRAM_MIN_DB = -110;
+const SPECTROGRAM_MAX_DB = 0;
+// Lowest frequency shown on the log scale
+const LOG_MIN_FREQ = 20;
+
+// Colour map control points (evenly spaced, low -> high)
+const COLOR_MAP_STOPS: Record<ColorMapName, [number, number, number][]> = {
+  magma: [[0, 0, 4], [40, 11, 84], [101, 21, 110], [159, 42, 99], [212, 72, 66], [245, 125, 21], [250, 193, 39], [252, 253, 191]],
+  viridis: [[68, 1, 84], [70, 50, 127], [54, 92, 141], [39, 127, 142], [31, 161, 135], [74, 194, 109], [159, 218, 58], [253, 231, 37]],
+  grayscale: [[0, 0, 0], [255, 255, 255]],
+};
+
+const lutCache = new Map<ColorMapName, Uint8ClampedArray>();
+
+/**
+ * 256-entry RGB lookup table for a colour map (linear interpolation between stops).
+ */
+export function getColorMapLut(name: ColorMapName): Uint8ClampedArray {
+  let lut = lutCache.get(name);
+  if (lut) return lut;
+
+  const stops = COLOR_MAP_STOPS[name];
+  lut = new Uint8ClampedArray(256 * 3);
+  for (let i = 0; i < 256; i++) {
+    const pos = (i / 255) * (stops.length - 1);
+    const idx = Math.min(stops.length - 2, Math.floor(pos));
+    const frac = pos - idx;
+    for (let c = 0; c < 3; c++) {
+      lut[i * 3 + c] = stops[idx][c] + (stops[idx + 1][c] - stops[idx][c]) * frac;
+    }
+  }
+  lutCache.set(name, lut);
+  return lut;
+}
+
+/**
+ * Renders a spectrogram of the whole buffer into RGBA pixels.
+ * One FFT frame per pixel column (centered on the column's time), rows mapped
+ * to frequency on a linear or log scale. Low frequencies are at the bottom.
+ */
+export function renderSpectrogram(
+  buffer: AudioBuffer,
+  width: number,
+  height: number,
+  settings: SpectrogramSettings,
+  range: TimelineView = { start: 0, end: buffer.duration }
+): ImageData {
+  const { fftSize, scale, colorMap } = settings;
+  const lut = getColorMapLut(colorMap);
+  const image = new ImageData(width, height);
+  const pixels = image.data;
+
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < buffer.numberOfChannels; c++) channels.push(buffer.getChannelData(c));
+
+  const nyquist = buffer.sampleRate / 2;
+  const binHz = buffer.sampleRate / fftSize;
+  const bins = fftSize / 2 + 1;
+
+  // Bin range covered by each row (top row = highest frequency)
+  const rowToFreq = (row: number) => {
+    const t = 1 - row / height;
+    if (scale === 'log') {
+      const logMin = Math.log10(LOG_MIN_FREQ);
+      return Math.pow(10, logMin + t * (Math.log10(nyquist) - logMin));
+    }
+    return t * nyquist;
+  };
+  const rowBins: [number, number][] = [];
+  for (let row = 0; row < height; row++) {
+    const hi = Math.min(bins - 1, Math.round(rowToFreq(row) / binHz));
+    const lo = Math.max(0, Math.min(hi, Math.round(rowToFreq(row + 1) / binHz)));
+    rowBins.push([lo, hi]);
+  }
+
+  // Columns cover `range` (seconds), which may extend past the buffer
+  const firstSample = range.start * buffer.sampleRate;
+  const samplesPerColumn = ((range.end - range.start) * buffer.sampleRate) / width;
+  const dbRange = SPECTROGRAM_MAX_DB - SPECTROGRAM_MIN_DB;
+
+  for (let x = 0; x < width; x++) {
+    const center = Math.floor(firstSample + (x + 0.5) * samplesPerColumn);
+    const power = powerSpectrum(channels, center - fftSize / 2, fftSize);
+
+    for (let row = 0; row < height; row++) {
+      // Max power across the bins a row covers keeps narrow tones visible on compressed scales
+      const [lo, hi] = rowBins[row];
+      let max = 0;
+      for (let k = lo; k <= hi; k++) if (power[k] > max) max = power[k];
+
+      const norm = (powerToDb(max) - SPECTROGRAM_MIN_DB) / dbRange;
+      const idx = Math.max(0, Math.min(255, Math.round(norm * 255))) * 3;
+      const p = (row * width + x) * 4;
+      pixels[p] = lut[idx];
+      pixels[p + 1] = lut[idx + 1];
+      pixels[p + 2] = lut[idx + 2];
+      pixels[p + 3] = 255;
+    }
+  }
+
+  return image;
+}
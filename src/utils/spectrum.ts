@@ -0,0 +1,92 @@
+import { fft } from './fft';
+
+export const SPECTRUM_FLOOR_DB = -120;
+
+const windowCache = new Map<number, { window: Float64Array; gain: number }>();
+
+/**
+ * Hann window plus its coherent gain (sum of coefficients), cached per size.
+ */
+function getHannWindow(size: number) {
+  let cached = windowCache.get(size);
+  if (!cached) {
+    const window = new Float64Array(size);
+    let gain = 0;
+    for (let i = 0; i < size; i++) {
+      window[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (size - 1)));
+      gain += window[i];
+    }
+    cached = { window, gain };
+    windowCache.set(size, cached);
+  }
+  return cached;
+}
+
+/**
+ * Power spectrum (fftSize / 2 + 1 bins) of the mono sum of `channels` starting at `start`.
+ * Scaled so a full-scale sine reads 1.0 (0dB) in its bin.
+ * Samples past the end of the data are treated as silence.
+ */
+export function powerSpectrum(channels: Float32Array[], start: number, fftSize: number): Float64Array {
+  const { window, gain } = getHannWindow(fftSize);
+  const re = new Float64Array(fftSize);
+  const im = new Float64Array(fftSize);
+  const numChannels = channels.length;
+
+  for (const data of channels) {
+    const end = Math.min(fftSize, data.length - start);
+    for (let i = Math.max(0, -start); i < end; i++) {
+      re[i] += data[start + i] / numChannels;
+    }
+  }
+  for (let i = 0; i < fftSize; i++) re[i] *= window[i];
+
+  fft(re, im);
+
+  const bins = fftSize / 2 + 1;
+  const out = new Float64Array(bins);
+  const scale = 2 / gain;
+  for (let k = 0; k < bins; k++) {
+    const mag = Math.sqrt(re[k] * re[k] + im[k] * im[k]) * scale;
+    out[k] = mag * mag;
+  }
+  return out;
+}
+
+/**
+ * Fractional-octave smoothing in the power domain (e.g. fraction = 3 for 1/3 octave).
+ * Each bin becomes the mean power of all bins within +/- half the band around it.
+ * A fraction of 0 returns the input unchanged.
+ */
+export function smoothSpectrum(power: Float64Array, fraction: number): Float64Array {
+  if (fraction <= 0) return power;
+
+  const n = power.length;
+  // Prefix sums make every band average O(1)
+  const prefix = new Float64Array(n + 1);
+  for (let i = 0; i < n; i++) prefix[i + 1] = prefix[i] + power[i];
+
+  const factor = Math.pow(2, 1 / (2 * fraction));
+  const out = new Float64Array(n);
+  out[0] = power[0];
+  for (let k = 1; k < n; k++) {
+    const lo = Math.max(1, Math.floor(k / factor));
+    const hi = Math.min(n - 1, Math.ceil(k * factor));
+    out[k] = (prefix[hi + 1] - prefix[lo]) / (hi - lo + 1);
+  }
+  return out;
+}
+
+export const powerToDb = (power: number) => power > 1e-12 ? 10 * Math.log10(power) : SPECTRUM_FLOOR_DB;
+
+/**
+ * Linearly interpolated value of a per-bin array at an arbitrary frequency.
+ */
+export function valueAtFrequency(values: ArrayLike<number>, frequency: number, binHz: number): number {
+  const pos = frequency / binHz;
+  const i = Math.floor(pos);
+  if (i >= values.length - 1) return values[values.length - 1];
+  if (i < 0) return values[0];
+  const frac = pos - i;
+  return values[i] * (1 - frac) + values[i + 1] * frac;
+}
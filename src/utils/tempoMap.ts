@@ -0,0 +1,87 @@
+import { BpmPoint } from '../types';
+
+// Ticks per quarter note in exported MIDI files
+const PPQ = 480;
+
+/**
+ * Tempo changes with their musical position: `beats` is the number of quarter
+ * notes elapsed at `time` when the track is played against this tempo map.
+ * Consecutive points with the same tempo (to 0.01 BPM) are merged.
+ */
+export interface TempoChange {
+  time: number; // Seconds
+  bpm: number;
+  beats: number;
+}
+
+export function buildTempoMap(points: BpmPoint[]): TempoChange[] {
+  const changes: TempoChange[] = [];
+  for (const point of points) {
+    if (!(point.bpm > 0)) continue;
+    const prev = changes[changes.length - 1];
+    if (!prev) {
+      // The first tempo holds from the very start of the track
+      changes.push({ time: 0, bpm: point.bpm, beats: 0 });
+      continue;
+    }
+    if (Math.abs(prev.bpm - point.bpm) < 0.005) continue;
+    changes.push({
+      time: point.time,
+      bpm: point.bpm,
+      beats: prev.beats + ((point.time - prev.time) * prev.bpm) / 60,
+    });
+  }
+  return changes;
+}
+
+// MIDI variable-length quantity
+const vlq = (value: number): number[] => {
+  const bytes = [value & 0x7f];
+  let rest = value >> 7;
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+    rest >>= 7;
+  }
+  return bytes;
+};
+
+const uint32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0) & 0x7f);
+
+/**
+ * Standard MIDI File (format 0) holding only the tempo map: a 4/4 time
+ * signature and one Set Tempo event per tempo change, at the musical position
+ * where the track reaches it. Bar 1 of the DAW session lines up with the
+ * start of the audio file.
+ */
+export function tempoMapToMidi(points: BpmPoint[], trackName: string): Uint8Array {
+  const events: number[] = [];
+
+  // Track name + time signature 4/4 (24 clocks per click, 8 32nds per quarter)
+  const name = Array.from(new TextEncoder().encode(trackName)).slice(0, 127);
+  events.push(0x00, 0xff, 0x03, ...vlq(name.length), ...name);
+  events.push(0x00, 0xff, 0x58, 0x04, 0x04, 0x02, 0x18, 0x08);
+
+  let lastTick = 0;
+  for (const change of buildTempoMap(points)) {
+    const tick = Math.round(change.beats * PPQ);
+    const microsPerQuarter = Math.min(0xffffff, Math.round(60_000_000 / change.bpm));
+    events.push(
+      ...vlq(tick - lastTick), 0xff, 0x51, 0x03,
+      (microsPerQuarter >> 16) & 0xff, (microsPerQuarter >> 8) & 0xff, microsPerQuarter & 0xff
+    );
+    lastTick = tick;
+  }
+
+  // End of track
+  events.push(0x00, 0xff, 0x2f, 0x00);
+
+  return new Uint8Array([
+    ...ascii('MThd'), ...uint32(6),
+    0x00, 0x00, // Format 0
+    0x00, 0x01, // One track
+    (PPQ >> 8) & 0xff, PPQ & 0xff,
+    ...ascii('MTrk'), ...uint32(events.length),
+    ...events,
+  ]);
+}
@@ -0,0 +1,78 @@
+import { TimelineView, Beat } from '../types';
+import { BEATS_PER_BAR } from './bpm';
+
+// Beat grid density limits
+const MIN_BEAT_SPACING_PX = 6;
+const MIN_BAR_LABEL_SPACING_PX = 36;
+
+export const fullView = (duration: number): TimelineView => ({ start: 0, end: duration });
+
+export const isFullView = (view: TimelineView, duration: number) => view.start <= 0 && view.end >= duration;
+
+/**
+ * Keeps a view inside [0, duration] and at least `minLength` long,
+ * preserving its length where possible.
+ */
+export function clampView(view: TimelineView, duration: number, minLength: number): TimelineView {
+  const length = Math.min(duration, Math.max(minLength, view.end - view.start));
+  const start = Math.max(0, Math.min(duration - length, view.start));
+  return { start, end: start + length };
+}
+
+/**
+ * Scales the view length by `factor` (< 1 zooms in), keeping the time
+ * `anchor` at the same screen position.
+ */
+export function zoomView(view: TimelineView, factor: number, anchor: number, duration: number, minLength: number): TimelineView {
+  const ratio = (anchor - view.start) / (view.end - view.start);
+  const length = (view.end - view.start) * factor;
+  const start = anchor - ratio * length;
+  return clampView({ start, end: start + length }, duration, minLength);
+}
+
+export function panView(view: TimelineView, seconds: number, duration: number, minLength: number): TimelineView {
+  return clampView({ start: view.start + seconds, end: view.end + seconds }, duration, minLength);
+}
+
+export interface BeatGridLine {
+  x: number; // Pixels from the left edge
+  beat: Beat;
+  isDownbeat: boolean;
+  label: string | null; // Bar number, if there is room for it
+}
+
+/**
+ * Beat grid lines inside the view. Beat lines are dropped once they would be
+ * closer than a few pixels, and bar numbers thin out to every 2nd, 4th, 8th...
+ * bar so they never overlap (bars without a number lose their line too when
+ * bars themselves get that dense).
+ */
+export function beatGridLines(beats: Beat[], view: TimelineView, width: number): BeatGridLine[] {
+  if (beats.length < 2 || width <= 0 || view.end <= view.start) return [];
+
+  const pxPerSec = width / (view.end - view.start);
+  const beatPx = ((beats[beats.length - 1].time - beats[0].time) / (beats.length - 1)) * pxPerSec;
+  const barPx = beatPx * BEATS_PER_BAR;
+  let labelEvery = 1;
+  while (barPx * labelEvery < MIN_BAR_LABEL_SPACING_PX && labelEvery < 4096) labelEvery *= 2;
+
+  // First beat in view (binary search)
+  let lo = 0;
+  let hi = beats.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (beats[mid].time < view.start) lo = mid + 1;
+    else hi = mid;
+  }
+
+  const lines: BeatGridLine[] = [];
+  for (let i = lo; i < beats.length && beats[i].time <= view.end; i++) {
+    const beat = beats[i];
+    const isDownbeat = beat.beat === 1 && beat.bar > 0;
+    const label = isDownbeat && (beat.bar - 1) % labelEvery === 0 ? `${beat.bar}` : null;
+    if (!isDownbeat && beatPx < MIN_BEAT_SPACING_PX) continue;
+    if (isDownbeat && !label && barPx < MIN_BEAT_SPACING_PX) continue;
+    lines.push({ x: (beat.time - view.start) * pxPerSec, beat, isDownbeat, label });
+  }
+  return lines;
+}
@@ -0,0 +1,134 @@
+import { LoopRegion } from '../types';
+
+// Delay between a play request and the scheduled start, so every deck's
+// source is created and started before the first one becomes audible.
+const START_LATENCY = 0.05;
+
+export interface TransportDeck {
+  buffer: AudioBuffer;
+  output: AudioNode; // Where this deck's source is connected (its gain/EQ chain)
+  offset: number; // Deck time = timeline time + offset (seconds)
+}
+
+export interface Transport {
+  play: (time: number, decks: TransportDeck[], loop?: LoopRegion | null) => void;
+  stop: () => void;
+  seek: (time: number) => void;
+  getTime: () => number;
+  isPlaying: () => boolean;
+}
+
+/**
+ * A deck's audio from timeline `from` to `to`, padded with silence where the
+ * deck has no audio (before its start or past its end). Every deck gets the
+ * same number of samples, so their native loops stay the same length.
+ */
+function renderLoopBuffer(ac: BaseAudioContext, deck: TransportDeck, from: number, to: number): AudioBuffer | null {
+  const { buffer } = deck;
+  const length = Math.max(1, Math.round((to - from) * buffer.sampleRate));
+  const first = Math.round((from + deck.offset) * buffer.sampleRate); // Deck sample at `from`
+  const copyFrom = Math.max(0, first);
+  const copyTo = Math.min(buffer.length, first + length);
+  if (copyTo <= copyFrom) return null; // No audio anywhere in the range
+
+  const padded = ac.createBuffer(buffer.numberOfChannels, length, buffer.sampleRate);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    padded.copyToChannel(buffer.getChannelData(c).subarray(copyFrom, copyTo), c, copyFrom - first);
+  }
+  return padded;
+}
+
+/**
+ * Sample-locked playback of several decks on one AudioContext clock.
+ * Each play() creates fresh AudioBufferSourceNodes and starts them all at the
+ * same context time, so decks can't drift apart the way media elements do.
+ * The timeline position is derived from the context clock while playing.
+ * Loops use the sources' native loop points over silence-padded copies of
+ * the looped span, so the wrap is seamless and every deck loops the same length.
+ */
+export function createTransport(ac: AudioContext): Transport {
+  let sources: AudioBufferSourceNode[] = [];
+  let playing = false;
+  let position = 0; // Timeline seconds while stopped
+  let startContextTime = 0; // Context time at which `startTimeline` is heard
+  let startTimeline = 0;
+  let activeLoop: LoopRegion | null = null;
+
+  const stopSources = () => {
+    sources.forEach(source => {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch (e) {
+        // Already stopped
+      }
+      source.disconnect();
+    });
+    sources = [];
+  };
+
+  const getTime = () => {
+    if (!playing) return position;
+    const time = Math.max(startTimeline, startTimeline + ac.currentTime - startContextTime);
+    if (activeLoop && time >= activeLoop.end) {
+      const length = activeLoop.end - activeLoop.start;
+      return activeLoop.start + ((time - activeLoop.start) % length);
+    }
+    return time;
+  };
+
+  const play = (time: number, decks: TransportDeck[], loop: LoopRegion | null = null) => {
+    stopSources();
+    activeLoop = loop && loop.end > loop.start ? loop : null;
+    // Starting past the loop jumps back to its start
+    startTimeline = activeLoop && time >= activeLoop.end ? activeLoop.start : Math.max(0, time);
+    startContextTime = ac.currentTime + START_LATENCY;
+
+    decks.forEach(deck => {
+      if (activeLoop) {
+        // Each deck plays its own copy of the timeline span (lead-in up to the
+        // loop, then the loop), so a deck that starts later or ends inside the
+        // loop still wraps in step with the others.
+        const from = Math.min(startTimeline, activeLoop.start);
+        const padded = renderLoopBuffer(ac, deck, from, activeLoop.end);
+        if (!padded) return;
+        const source = ac.createBufferSource();
+        source.buffer = padded;
+        source.connect(deck.output);
+        source.loop = true;
+        source.loopStart = Math.round((activeLoop.start - from) * padded.sampleRate) / padded.sampleRate;
+        source.loopEnd = padded.duration;
+        source.start(startContextTime, startTimeline - from);
+        sources.push(source);
+        return;
+      }
+
+      const deckTime = startTimeline + deck.offset;
+      if (deckTime >= deck.buffer.duration) return;
+      const source = ac.createBufferSource();
+      source.buffer = deck.buffer;
+      source.connect(deck.output);
+      if (deckTime >= 0) {
+        source.start(startContextTime, deckTime);
+      } else {
+        // Deck starts later on the timeline: delay it instead of seeking
+        source.start(startContextTime - deckTime, 0);
+      }
+      sources.push(source);
+    });
+
+    playing = true;
+  };
+
+  const stop = () => {
+    position = getTime();
+    playing = false;
+    stopSources();
+  };
+
+  const seek = (time: number) => {
+    position = Math.max(0, time);
+  };
+
+  return { play, stop, seek, getTime, isPlaying: () => playing };
+}
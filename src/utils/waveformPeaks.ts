@@ -0,0 +1,167 @@
+// Bar style shared by every waveform lane
+export const BAR_WIDTH = 2;
+export const BAR_GAP = 3;
+const BAR_STEP = BAR_WIDTH + BAR_GAP;
+
+// Finest pyramid level and the factor between levels
+const BASE_BLOCK = 16;
+const LEVEL_FACTOR = 4;
+
+// Sample dots are drawn once samples are at least this far apart
+const DOT_SPACING_PX = 6;
+
+/**
+ * Absolute peaks over blocks of growing size, so any zoom level can be drawn
+ * by reading about two blocks per bar instead of every sample in view.
+ */
+export interface PeakPyramid {
+  channels: Float32Array[];
+  sampleRate: number;
+  length: number;
+  max: number; // Overall peak (for normalizing)
+  levels: { blockSize: number; peaks: Float32Array }[];
+}
+
+export function buildPeakPyramid(channels: Float32Array[], sampleRate: number): PeakPyramid {
+  const length = channels[0]?.length ?? 0;
+  const levels: PeakPyramid['levels'] = [];
+
+  // 1. Finest level straight from the samples
+  const base = new Float32Array(Math.ceil(length / BASE_BLOCK));
+  for (const channel of channels) {
+    for (let b = 0; b < base.length; b++) {
+      const end = Math.min(length, (b + 1) * BASE_BLOCK);
+      let max = base[b];
+      for (let i = b * BASE_BLOCK; i < end; i++) {
+        const abs = Math.abs(channel[i]);
+        if (abs > max) max = abs;
+      }
+      base[b] = max;
+    }
+  }
+  levels.push({ blockSize: BASE_BLOCK, peaks: base });
+
+  // 2. Coarser levels from the previous one
+  let prev = base;
+  let blockSize = BASE_BLOCK;
+  while (prev.length > 1) {
+    const next = new Float32Array(Math.ceil(prev.length / LEVEL_FACTOR));
+    for (let b = 0; b < next.length; b++) {
+      const end = Math.min(prev.length, (b + 1) * LEVEL_FACTOR);
+      let max = 0;
+      for (let i = b * LEVEL_FACTOR; i < end; i++) if (prev[i] > max) max = prev[i];
+      next[b] = max;
+    }
+    blockSize *= LEVEL_FACTOR;
+    levels.push({ blockSize, peaks: next });
+    prev = next;
+  }
+
+  let max = 0;
+  for (let i = 0; i < prev.length; i++) if (prev[i] > max) max = prev[i];
+
+  return { channels, sampleRate, length, max, levels };
+}
+
+// Pyramids per decoded buffer (a deck and the overview strip share one)
+const pyramidCache = new WeakMap<AudioBuffer, PeakPyramid>();
+
+export function getPeakPyramid(buffer: AudioBuffer): PeakPyramid {
+  let pyramid = pyramidCache.get(buffer);
+  if (!pyramid) {
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < buffer.numberOfChannels; c++) channels.push(buffer.getChannelData(c));
+    pyramid = buildPeakPyramid(channels, buffer.sampleRate);
+    pyramidCache.set(buffer, pyramid);
+  }
+  return pyramid;
+}
+
+/** Absolute peak over samples [start, end), read from the coarsest level that fits. */
+export function peakInRange(pyramid: PeakPyramid, start: number, end: number): number {
+  const s0 = Math.max(0, Math.floor(start));
+  const s1 = Math.min(pyramid.length, Math.ceil(end));
+  if (s1 <= s0) return 0;
+
+  for (let l = pyramid.levels.length - 1; l >= 0; l--) {
+    const { blockSize, peaks } = pyramid.levels[l];
+    if (blockSize * 2 > s1 - s0) continue;
+    let max = 0;
+    const last = Math.ceil(s1 / blockSize);
+    for (let b = Math.floor(s0 / blockSize); b < last; b++) if (peaks[b] > max) max = peaks[b];
+    return max;
+  }
+
+  let max = 0;
+  for (const channel of pyramid.channels) {
+    for (let i = s0; i < s1; i++) {
+      const abs = Math.abs(channel[i]);
+      if (abs > max) max = abs;
+    }
+  }
+  return max;
+}
+
+/**
+ * Draws the signal between `start` and `end` (seconds) across the canvas in
+ * the current fill/stroke style. Zoomed out it draws peak bars on a grid
+ * anchored to the signal (so bars don't shimmer while scrolling); below one
+ * sample per pixel it draws the mono mix sample by sample.
+ */
+export function drawWaveform(
+  ctx: CanvasRenderingContext2D,
+  pyramid: PeakPyramid,
+  start: number,
+  end: number,
+  width: number,
+  height: number,
+  scale = 1
+): void {
+  const { sampleRate, length, channels } = pyramid;
+  if (end <= start || width <= 0 || length === 0) return;
+
+  const mid = height / 2;
+  const pxPerSec = width / (end - start);
+  const samplesPerPx = sampleRate / pxPerSec;
+
+  // 1. Peak bars
+  if (samplesPerPx >= 1) {
+    const firstBar = Math.floor((start * pxPerSec) / BAR_STEP);
+    const lastBar = Math.ceil((end * pxPerSec) / BAR_STEP);
+    for (let b = firstBar; b < lastBar; b++) {
+      const s0 = b * BAR_STEP * samplesPerPx;
+      const s1 = s0 + BAR_STEP * samplesPerPx;
+      if (s1 <= 0 || s0 >= length) continue;
+      const h = Math.max(1, Math.min(1, peakInRange(pyramid, s0, s1) * scale) * mid);
+      ctx.fillRect(b * BAR_STEP - start * pxPerSec, mid - h, BAR_WIDTH, h * 2);
+    }
+    return;
+  }
+
+  // 2. Sample level
+  const first = Math.max(0, Math.floor(start * sampleRate));
+  const last = Math.min(length - 1, Math.ceil(end * sampleRate));
+  if (last < first) return;
+
+  const sampleAt = (i: number) => {
+    let sum = 0;
+    for (const channel of channels) sum += channel[i];
+    return sum / channels.length;
+  };
+  const toX = (i: number) => (i / sampleRate - start) * pxPerSec;
+  const toY = (value: number) => mid - Math.max(-1, Math.min(1, value * scale)) * mid;
+
+  ctx.beginPath();
+  for (let i = first; i <= last; i++) {
+    if (i === first) ctx.moveTo(toX(i), toY(sampleAt(i)));
+    else ctx.lineTo(toX(i), toY(sampleAt(i)));
+  }
+  ctx.lineWidth = 1.5;
+  ctx.stroke();
+
+  if (1 / samplesPerPx >= DOT_SPACING_PX) {
+    for (let i = first; i <= last; i++) {
+      ctx.fillRect(toX(i) - 1.5, toY(sampleAt(i)) - 1.5, 3, 3);
+    }
+  }
+}
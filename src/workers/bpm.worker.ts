@@ -0,0 +1,59 @@
+import { BpmPoint, BpmProfile } from '../types';
+import { analyzeBpmFromData, getTempogram } from '../utils/bpm';
+import { BpmWorkerRequest, BpmWorkerMessage } from '../utils/bpmWorker';
+
+// Points are posted in batches so fine intervals don't flood the main thread
+const BATCH_MS = 100;
+// Share of the progress bar taken by building the tempogram (first analysis only)
+const TEMPOGRAM_PROGRESS = 0.9;
+
+const ctx = self as unknown as Worker;
+const post = (message: BpmWorkerMessage) => ctx.postMessage(message);
+
+let track: { data: Float32Array; sampleRate: number; duration: number; profile: BpmProfile } | null = null;
+
+ctx.onmessage = (e: MessageEvent<BpmWorkerRequest>) => {
+  const request = e.data;
+  if (request.type === 'load') {
+    track = { data: request.data, sampleRate: request.sampleRate, duration: request.duration, profile: request.profile };
+    return;
+  }
+
+  const { id, interval } = request;
+  if (!track) {
+    post({ type: 'error', id, message: 'No track loaded' });
+    return;
+  }
+
+  try {
+    const { data, sampleRate, duration, profile } = track;
+    let lastPost = performance.now();
+
+    // Built on the first analysis, cached for the following ones
+    let builtNow = false;
+    const tempogram = getTempogram(data, sampleRate, profile, (progress) => {
+      builtNow = true;
+      if (performance.now() - lastPost >= BATCH_MS) {
+        post({ type: 'points', id, points: [], progress: progress * TEMPOGRAM_PROGRESS });
+        lastPost = performance.now();
+      }
+    });
+    const start = builtNow ? TEMPOGRAM_PROGRESS : 0;
+    if (builtNow) post({ type: 'onset', id, onset: tempogram.onset, rate: tempogram.rate });
+
+    let batch: BpmPoint[] = [];
+    analyzeBpmFromData(data, sampleRate, duration, interval, profile, (point, progress) => {
+      batch.push(point);
+      if (performance.now() - lastPost >= BATCH_MS) {
+        post({ type: 'points', id, points: batch, progress: start + progress * (1 - start) });
+        batch = [];
+        lastPost = performance.now();
+      }
+    });
+
+    if (batch.length > 0) post({ type: 'points', id, points: batch, progress: 1 });
+    post({ type: 'done', id });
+  } catch (err) {
+    post({ type: 'error', id, message: err instanceof Error ? err.message : String(err) });
+  }
+};
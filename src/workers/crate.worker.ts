@@ -0,0 +1,48 @@
+import { analyzeBpmFromData, summarizeTempo } from '../utils/bpm';
+import { buildChromagram, chromaInRange, estimateKey } from '../utils/key';
+import { calculateTrackLoudness } from '../utils/audioAnalysis';
+import { truePeak } from '../utils/loudness';
+import { CrateWorkerRequest, CrateWorkerMessage } from '../utils/crateAnalysis';
+
+const ctx = self as unknown as Worker;
+const post = (message: CrateWorkerMessage) => ctx.postMessage(message);
+
+// One file per message; the pool sends the next one when the result is back
+ctx.onmessage = (e: MessageEvent<CrateWorkerRequest>) => {
+  const { id, channels, sampleRate, duration, filtered, filteredRate, chroma, chromaRate } = e.data;
+  try {
+    // Tempo over the Auto (30s) windows
+    const tempo = summarizeTempo(analyzeBpmFromData(filtered, filteredRate, duration, 0));
+
+    const chromagram = buildChromagram(chroma, chromaRate);
+    const key = estimateKey(chromaInRange(chromagram, 0, chromagram.duration));
+
+    // The loudness meter only reads these members of an AudioBuffer
+    // (AudioBuffer itself doesn't exist in workers)
+    const buffer = {
+      sampleRate,
+      duration,
+      length: channels[0]?.length ?? 0,
+      numberOfChannels: channels.length,
+      getChannelData: (channel: number) => channels[channel],
+    } as unknown as AudioBuffer;
+    const loudness = calculateTrackLoudness(buffer);
+
+    const peak = channels.reduce((max, data) => Math.max(max, truePeak(data, 0, data.length)), 0);
+
+    post({
+      type: 'result',
+      id,
+      result: {
+        duration,
+        bpm: tempo?.bpm,
+        bpmConfidence: tempo?.confidence,
+        key: key ?? undefined,
+        loudness,
+        peak: peak > 0 ? 20 * Math.log10(peak) : -Infinity,
+      },
+    });
+  } catch (err) {
+    post({ type: 'error', id, message: err instanceof Error ? err.message : String(err) });
+  }
+};
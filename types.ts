@@ -1,5 +1,10 @@
 
-export type TrackId = 'A' | 'B' | 'C';
+// Comparator slots are numbered ('1', '2', ...); 'C' is the BPM Analyzer deck
+export type TrackId = `${number}` | 'C';
+
+// Which comparator slots feed the crossfader / difference view
+export type DeckRole = 'A' | 'B';
+export type SlotRouting = Record<DeckRole, TrackId | null>;
 
 export interface TrackData {
   id: TrackId;
@@ -8,9 +13,130 @@ export interface TrackData {
   duration: number;
 }
 
+// Result of cross-correlating Track B against Track A in the Comparator
+export interface TrackAlignment {
+  lagSamples: number; // Positive = B's content starts later in its file than A's
+  sampleRate: number;
+  confidence: number; // Normalized correlation peak (0-1)
+}
+
+// Offline A - B residual used by the Comparator's difference view
+export interface ResidualAnalysis {
+  channels: Float32Array[]; // Per-channel residual in timeline samples (alignment applied)
+  sampleRate: number;
+  residualDb: number; // RMS of the residual (dBFS)
+  sourceDb: number; // RMS of gain-matched Track A over the same span (dBFS)
+  peakDb: number; // Sample peak of the residual (dBFS)
+}
+
+// Time span where the residual stays above the report threshold
+export interface NullTestRange {
+  start: number; // Timeline seconds
+  end: number;
+  rmsDb: number; // Loudest block RMS within the range (dBFS)
+  peakDb: number; // Sample peak within the range (dBFS)
+}
+
+export interface NullTestReport {
+  residualDb: number;
+  sourceDb: number;
+  relativeDb: number; // Residual RMS relative to source RMS
+  peakDb: number;
+  thresholdDb: number;
+  duration: number; // Seconds of overlap that were compared
+  ranges: NullTestRange[];
+}
+
+// ITU-R BS.1770 / EBU R128 programme loudness
+export interface LoudnessStats {
+  integrated: number; // LUFS (gated)
+  range: number; // LRA in LU
+}
+
+// Parametric EQ band (maps 1:1 onto a Web Audio BiquadFilterNode)
+export interface EqBand {
+  type: 'peaking' | 'lowshelf' | 'highshelf';
+  frequency: number; // Hz
+  gain: number; // dB
+  q: number; // Ignored by shelves (Web Audio uses a fixed slope)
+}
+
+// Suggested EQ that moves Track A's average spectrum towards Track B's
+export interface EqMatchResult {
+  bands: EqBand[];
+  frequencies: number[]; // Log-spaced evaluation grid (Hz)
+  target: number[]; // Smoothed B - A difference at each grid point (dB)
+  fitted: number[]; // Combined response of `bands` at each grid point (dB)
+}
+
+// One answered ABX trial
+export interface AbxTrial {
+  index: number; // 1-based
+  x: DeckRole; // What X actually was
+  answer: DeckRole;
+  correct: boolean;
+  answeredAt: string; // ISO timestamp
+}
+
+// Blind ABX session over the tracks routed to A and B
+export interface AbxSession {
+  trackA: string; // File names, only shown once the session has finished
+  trackB: string;
+  startedAt: string;
+  finishedAt: string | null;
+  x: DeckRole; // Hidden identity of X for the current trial
+  trials: AbxTrial[];
+}
+
+export interface AbxSummary {
+  total: number;
+  correct: number;
+  pValue: number; // One-sided binomial, chance of scoring at least this well by guessing
+}
+
+// Timeline span played repeatedly when looping is enabled
+export interface LoopRegion {
+  start: number; // Timeline seconds
+  end: number;
+}
+
+// Visible span of the timeline when zoomed in
+export interface TimelineView {
+  start: number; // Seconds
+  end: number;
+}
+
+// Named point (end = null) or region on a track, in that track's own time
+export interface Marker {
+  id: string;
+  name: string;
+  start: number; // Seconds
+  end: number | null;
+}
+
+// Onset detection used for BPM: 'lowpass' = kick/snare energy below 400Hz,
+// 'multiband' = spectral flux across several bands (ambient, classical, hat-driven)
+export type BpmProfile = 'lowpass' | 'multiband';
+
+// Alternative tempo for a BPM window; score is relative to the best candidate (1)
+export interface BpmCandidate {
+  bpm: number;
+  score: number;
+}
+
 export interface BpmPoint {
   time: number;
   bpm: number;
+  confidence: number; // 0-1, 0 when carried forward
+  candidates: BpmCandidate[]; // Best first, including half/double time
+  carried?: boolean; // Detection failed, the previous tempo was carried forward
+}
+
+// Tracked beat of the Analyzer track
+export interface Beat {
+  time: number; // Seconds
+  bar: number; // 1-based, 0 for a pickup before the first downbeat
+  beat: number; // Position in the bar, 1 = downbeat
 }
 
 // Minimal definition for WaveSurfer instance to avoid full type import issues in global scope if library not fully typed in env
@@ -33,6 +159,37 @@ export interface WaveSurferInstance {
   getMediaElement: () => HTMLMediaElement;
 }
 
+// Musical key estimated locally from a chromagram
+export interface KeyEstimate {
+  tonic: number; // Pitch class, 0 = C
+  mode: 'major' | 'minor';
+  name: string; // e.g. "A minor"
+  camelot: string; // Camelot wheel code, e.g. "8A"
+  confidence: number; // 0-1
+}
+
+// Key of one analysis window of the BPM Log
+export interface KeyPoint {
+  time: number;
+  key: KeyEstimate;
+  modulation: boolean; // Confident key change from the previous window
+}
+
+// One file of a batch (crate) analysis
+export interface CrateTrack {
+  id: string;
+  file: File;
+  path: string; // Relative path inside the dropped folder (file name for loose files)
+  status: 'queued' | 'analyzing' | 'done' | 'error';
+  duration?: number;
+  bpm?: number;
+  bpmConfidence?: number; // 0-1
+  key?: KeyEstimate;
+  loudness?: number; // Integrated LUFS
+  peak?: number; // True peak, dBTP
+  error?: string;
+}
+
 // Genre Analyzer Types
 export interface AiAnalysisResult {
   genre: string;
@@ -47,6 +204,7 @@ export interface AnalyzedTrack {
   status: 'idle' | 'decoding' | 'analyzing_ai' | 'done' | 'error';
   duration?: number;
   aiAnalysis?: AiAnalysisResult;
+  key?: KeyEstimate; // Local estimate, available without an API key
   error?: string;
   audioBuffer?: AudioBuffer;
 }